@@ -1,171 +1,133 @@
 import { useState, useEffect } from 'react'
-import { Search, Mail, Copy, Download, History, Loader2, User, Building2 } from 'lucide-react'
+import { Search, Mail, Download, Loader2, Pause, Square, ListChecks, Settings2 } from 'lucide-react'
+import { Input } from './components/ui/input'
 import { Button } from './components/ui/button'
 import { Textarea } from './components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card'
-import { Badge } from './components/ui/badge'
 import { Separator } from './components/ui/separator'
-import { ScrollArea } from './components/ui/scroll-area'
-import { blink } from './blink/client'
+import { Switch } from './components/ui/switch'
+import { Label } from './components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
+import { ContactCard } from './components/ContactCard'
+import { DomainPatternSummary } from './components/DomainPatternSummary'
+import { PersonaBuilder } from './components/PersonaBuilder'
+import { PersonaDetailSheet } from './components/PersonaDetailSheet'
+import { PersonaLibraryCard } from './components/PersonaLibraryCard'
+import { SavePersonaControl } from './components/SavePersonaControl'
+import { BulkLookupPanel } from './components/BulkLookupPanel'
+import { DiscoveryProgressPanel } from './components/DiscoveryProgressPanel'
+import { SearchErrorSummary } from './components/SearchErrorSummary'
+import { ResultDetailSheet } from './components/ResultDetailSheet'
+import { SearchHistoryCard } from './components/SearchHistoryCard'
+import { SearchJobsCard } from './components/SearchJobsCard'
+import { QueryPlanEditor } from './components/QueryPlanEditor'
+import { RunEstimateSummary } from './components/RunEstimateSummary'
+import { SearchSettingsSheet } from './components/SearchSettingsSheet'
+import {
+  blink,
+  discoveryClient,
+  deliverabilityVerifier,
+  historyStore,
+  jobStore,
+  patternStore,
+  personaStore,
+  querySetStore,
+  settingsStore
+} from './blink/client'
+import { useSearchHistory } from './hooks/use-search-history'
+import { useQuerySets } from './hooks/use-query-sets'
+import { useSearchSettings } from './hooks/use-search-settings'
+import { useEmailPatterns } from './hooks/use-email-patterns'
+import { useBulkLookup } from './hooks/use-bulk-lookup'
+import { useSearchJobs } from './hooks/use-search-jobs'
+import { usePersonaLibrary } from './hooks/use-persona-library'
+import {
+  applyProgressEvent,
+  buildCompanyQueries,
+  companyPersona,
+  buildLookupQueries,
+  describeLookup,
+  compilePersona,
+  createProgress,
+  EMPTY_PERSONA_SPEC,
+  ERROR_KIND_HINTS,
+  describeFailure,
+  errorKind,
+  groupContacts,
+  matchPreset,
+  MAX_PLANNED_QUERIES,
+  planQueries,
+  parseCompanyTarget,
+  parsePersonLookup,
+  splitTerms,
+  SEARCH_PRESETS,
+  type DiscoveryEvent,
+  type DiscoveryProgress,
+  type DomainPattern,
+  type EmailResult,
+  type EmailType,
+  type PersonaSpec,
+  type SearchSettings,
+  type VerificationSummary
+} from './lib/discovery'
+import { buildCsv, downloadCsv } from './lib/export'
+import { buildEnrichedCsv, type ColumnMapping, type CsvTable } from './lib/bulk'
+import type { SearchHistoryEntry, SearchHistoryStatus } from './lib/history'
+import { notifyInBackground, type SearchJob, type SearchJobOutcome, type SearchRequest } from './lib/jobs'
+import {
+  findVersion,
+  isModified,
+  latestVersion,
+  personaRef,
+  type PersonaDraft,
+  type PersonaRef,
+  type PersonaVersion,
+  type SavedPersona
+} from './lib/personas'
+import {
+  fromQuerySet,
+  mergeRegenerated,
+  runnableQueries,
+  toPlannedQueries,
+  type PlannedQuery
+} from './lib/queryPlans'
 import toast, { Toaster } from 'react-hot-toast'
+import type { BlinkUser } from '@blinkdotnew/sdk'
 
-interface EmailResult {
-  id: string
-  email: string
-  name: string
-  company: string
-  title: string
-  confidence: number
-  source: string
-}
-
-interface SearchHistory {
-  id: string
-  persona: string
-  timestamp: Date
-  resultCount: number
-}
-
-// URL validation helper function
-const isValidUrl = (url: string): boolean => {
-  try {
-    const urlObj = new URL(url)
-    return urlObj.protocol === 'http:' || urlObj.protocol === 'https:'
-  } catch {
-    return false
-  }
-}
-
-// Enhanced URL filtering for better extraction success
-const isExtractableUrl = (url: string): boolean => {
-  if (!isValidUrl(url)) return false
-  
-  // Skip problematic URL patterns that often fail extraction
-  const skipPatterns = [
-    '/search',
-    '/login',
-    '/signup',
-    '/register',
-    '/auth',
-    '/signin',
-    'javascript:',
-    'mailto:',
-    'tel:',
-    '#',
-    '.pdf',
-    '.doc',
-    '.docx',
-    '.xls',
-    '.xlsx',
-    '.ppt',
-    '.pptx',
-    '.zip',
-    '.rar',
-    '.exe',
-    '.dmg',
-    'linkedin.com/in/', // LinkedIn profiles often blocked
-    'facebook.com',
-    'twitter.com',
-    'instagram.com',
-    'youtube.com',
-    'tiktok.com',
-    'pinterest.com',
-    'reddit.com/r/',
-    'amazon.com/dp/',
-    'amazon.com/gp/',
-    'ebay.com',
-    'etsy.com'
-  ]
-  
-  // Only allow URLs from domains that typically have extractable content
-  const allowedDomains = [
-    'company',
-    'corp',
-    'inc',
-    'llc',
-    'org',
-    'edu',
-    'gov',
-    'about',
-    'team',
-    'contact',
-    'directory',
-    'staff',
-    'leadership'
-  ]
-  
-  const hasAllowedPattern = allowedDomains.some(pattern => 
-    url.toLowerCase().includes(pattern)
-  )
-  
-  const hasSkipPattern = skipPatterns.some(pattern => 
-    url.toLowerCase().includes(pattern)
-  )
-  
-  return !hasSkipPattern && (hasAllowedPattern || url.includes('/about') || url.includes('/team') || url.includes('/contact'))
-}
-
-// Retry helper with exponential backoff
-const retryWithBackoff = async <T,>(
-  fn: () => Promise<T>,
-  maxRetries: number = 1,
-  baseDelay: number = 2000
-): Promise<T> => {
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn()
-    } catch (error: any) {
-      console.log(`Attempt ${attempt + 1} failed:`, error.message)
-      
-      // Don't retry on 400 errors (bad request) - these won't succeed on retry
-      if (error.message?.includes('400') || error.message?.includes('Bad Request')) {
-        throw error
-      }
-      
-      if (attempt === maxRetries) throw error
-      
-      const delay = baseDelay * Math.pow(2, attempt)
-      console.log(`Waiting ${delay}ms before retry...`)
-      await new Promise(resolve => setTimeout(resolve, delay))
-    }
-  }
-  throw new Error('Max retries exceeded')
-}
-
-// Safe URL extraction with better error handling
-const safeExtractFromUrl = async (url: string): Promise<string | null> => {
-  try {
-    // Validate URL first
-    if (!url || !isExtractableUrl(url)) {
-      console.log('URL not suitable for extraction:', url)
-      return null
-    }
-
-    console.log('Attempting to extract from:', url)
-    
-    const content = await retryWithBackoff(async () => {
-      const result = await blink.data.extractFromUrl(url)
-      if (!result || result.trim().length < 20) {
-        throw new Error('Content too short or empty')
-      }
-      return result
-    }, 0, 1000) // No retries for extraction - fail fast
-    
-    console.log('Successfully extracted content from:', url)
-    return content
-  } catch (error: any) {
-    console.log('Failed to extract from URL:', url, error.message)
-    return null
-  }
-}
+const describeVerification = ({ verbatim, pattern, unsupported, dropped }: VerificationSummary): string =>
+  `${verbatim} verbatim in source, ${pattern} inferred from pattern, ${unsupported} unsupported` +
+  (dropped > 0 ? ` (${dropped} dropped)` : '')
 
 function App() {
-  const [user, setUser] = useState(null)
+  const [user, setUser] = useState<BlinkUser | null>(null)
   const [loading, setLoading] = useState(true)
   const [persona, setPersona] = useState('')
-  const [searching, setSearching] = useState(false)
+  const [personaMode, setPersonaMode] = useState<'text' | 'builder'>('text')
+  const [personaSpec, setPersonaSpec] = useState<PersonaSpec>(EMPTY_PERSONA_SPEC)
+  // Bumped to remount the builder with a spec loaded from history
+  const [builderKey, setBuilderKey] = useState(0)
+  // The library persona version loaded into the search box
+  const [activePersona, setActivePersona] = useState<PersonaRef | null>(null)
+  const [openPersona, setOpenPersona] = useState<SavedPersona | null>(null)
+  const [searchMode, setSearchMode] = useState<'persona' | 'company' | 'person' | 'bulk'>('persona')
+  const [companyInput, setCompanyInput] = useState('')
+  const [companyRoles, setCompanyRoles] = useState('')
+  const [lookupName, setLookupName] = useState('')
+  const [lookupTitle, setLookupTitle] = useState('')
+  // The address format found by the last company search or person lookup
+  const [companyPattern, setCompanyPattern] = useState<{ domain: string; pattern?: DomainPattern } | null>(null)
+  // The search job whose progress and results are on screen
+  const [viewedJobId, setViewedJobId] = useState<string | undefined>()
   const [results, setResults] = useState<EmailResult[]>([])
-  const [searchHistory, setSearchHistory] = useState<SearchHistory[]>([])
+  const [selectedResult, setSelectedResult] = useState<EmailResult | null>(null)
+  const [progress, setProgress] = useState<DiscoveryProgress | null>(null)
+  const [planFirst, setPlanFirst] = useState(false)
+  const [plan, setPlan] = useState<PlannedQuery[] | null>(null)
+  const [planning, setPlanning] = useState(false)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [showRoleAccounts, setShowRoleAccounts] = useState(true)
+  const [emailTypeFilter, setEmailTypeFilter] = useState<EmailType | 'all'>('all')
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -175,331 +137,443 @@ function App() {
     return unsubscribe
   }, [])
 
-  const handleSearch = async () => {
-    if (!persona.trim()) {
-      toast.error('Please enter a persona description')
-      return
+  const history = useSearchHistory(historyStore, user?.id)
+  // What the prompts see: the free text, or the builder's fields compiled
+  const searchPersona = personaMode === 'builder' ? compilePersona(personaSpec) : persona
+  const companyTarget = searchMode === 'company' ? parseCompanyTarget(companyInput, splitTerms(companyRoles)) : null
+  // The person lookup shares the company field with company mode
+  const personLookup = searchMode === 'person' ? parsePersonLookup(lookupName, companyInput, lookupTitle) : null
+  // What the search runs with in any mode
+  const searchText = companyTarget
+    ? companyPersona(companyTarget)
+    : personLookup
+      ? describeLookup(personLookup)
+      : searchMode === 'persona' ? searchPersona : ''
+  const querySets = useQuerySets(querySetStore, user?.id, searchText)
+  const personaLibrary = usePersonaLibrary(personaStore, user?.id)
+  const currentDraft: PersonaDraft = { text: searchPersona, spec: personaMode === 'builder' ? personaSpec : undefined }
+  const loadedPersona = activePersona ? personaLibrary.personas.find(entry => entry.id === activePersona.personaId) : undefined
+  const loadedVersion = loadedPersona && activePersona ? findVersion(loadedPersona, activePersona.version) : undefined
+  // Searches only link to a version whose text they actually ran with
+  const personaModified = !!loadedVersion && isModified(loadedVersion, currentDraft)
+  const { importShared } = personaLibrary
+
+  // A shared link (?persona=<shareId>) imports a copy into the user's library
+  useEffect(() => {
+    const shareId = new URLSearchParams(window.location.search).get('persona')
+    if (!user || !shareId) return
+    window.history.replaceState(null, '', window.location.pathname)
+
+    importShared(shareId)
+      .then((imported) => {
+        if (!imported) {
+          toast.error('This shared persona is no longer available.')
+          return
+        }
+        setOpenPersona(imported)
+        toast.success(`Added "${imported.name}" to your library`)
+      })
+      .catch((error) => {
+        console.error('Failed to import shared persona:', error)
+        toast.error('Could not open the shared persona.')
+      })
+  }, [user, importShared])
+  const searchSettings = useSearchSettings(settingsStore, user?.id)
+  const emailPatterns = useEmailPatterns(patternStore, user?.id)
+  const bulkLookup = useBulkLookup(discoveryClient)
+  const searchJobs = useSearchJobs(jobStore, discoveryClient, user?.id, {
+    runOptions: () => ({
+      deliverability: deliverabilityVerifier,
+      patterns: emailPatterns.patterns,
+      roleAccounts: searchSettings.roleAccounts
+    }),
+    onProgress: (job, event) => handleJobProgress(job, event),
+    onFinished: (job, outcome) => handleJobFinished(job, outcome),
+    onLoadFailed: () => toast.error('Could not load your saved search jobs. New searches will still run.')
+  })
+  const searching = !!searchJobs.running && searchJobs.running.id === viewedJobId
+  const viewedJob = searchJobs.jobs.find(job => job.id === viewedJobId)
+  const activePreset = matchPreset(searchSettings.settings)
+
+  const roleAccountCount = results.filter(result => result.roleAccount).length
+  const visibleResults = results.filter(result =>
+    (showRoleAccounts || !result.roleAccount) &&
+    (emailTypeFilter === 'all' || result.emailType === emailTypeFilter)
+  )
+  const contacts = groupContacts(visibleResults)
+
+  const updateSearchSettings = (next: Partial<SearchSettings>) => {
+    searchSettings.update(next).catch((error) => {
+      console.error('Failed to save search settings:', error)
+      toast.error('Could not save your search settings.')
+    })
+  }
+
+  const updateRoleAccounts = (next: string[]) => {
+    searchSettings.updateRoleAccounts(next).catch((error) => {
+      console.error('Failed to save role mailboxes:', error)
+      toast.error('Could not save your role mailbox list.')
+    })
+  }
+
+  // What a search submitted now would run with
+  const currentRequest = (): SearchRequest => ({
+    persona: searchText,
+    ...(companyTarget
+      ? { companyTarget }
+      : personLookup
+        ? { personLookup }
+        : {
+          personaSpec: personaMode === 'builder' ? personaSpec : undefined,
+          personaId: loadedVersion && !personaModified ? activePersona?.personaId : undefined,
+          personaVersion: loadedVersion && !personaModified ? activePersona?.version : undefined
+        })
+  })
+
+  const recordSearch = (job: SearchJob, status: SearchHistoryStatus) => {
+    const historyEntry: SearchHistoryEntry = {
+      id: `search-${Date.now()}`,
+      userId: job.userId,
+      ...job.request,
+      createdAt: new Date().toISOString(),
+      resultCount: job.results.length,
+      status,
+      error: status === 'failed' ? job.error : undefined
     }
+    history.save(historyEntry, job.results).catch((saveError) => {
+      console.error('Failed to save search history:', saveError)
+      toast.error('Search finished, but it could not be saved to your history.')
+    })
+  }
 
-    setSearching(true)
-    const allResults: EmailResult[] = []
-    
-    try {
-      // Step 1: Generate search queries based on persona
-      const { text: searchQueries } = await blink.ai.generateText({
-        prompt: `Based on this persona: "${persona}"
-        
-        Generate 3-5 specific search queries to find real people and their email addresses. Focus on:
-        - LinkedIn profiles with contact info
-        - Company directory pages
-        - Professional bios with email addresses
-        - Industry association member lists
-        - Conference speaker lists
-        
-        Return only the search queries, one per line, without quotes or numbering.
-        Example:
-        "marketing manager" SaaS company email contact
-        LinkedIn "marketing director" B2B software email
-        "head of marketing" startup contact information`,
-        maxTokens: 300
-      })
+  const stopSearch = () => {
+    if (viewedJobId) searchJobs.cancel(viewedJobId)
+  }
 
-      const queries = searchQueries.split('\\n').filter(q => q.trim()).slice(0, 3)
-
-      // Step 2: Search the web for each query
-      for (let i = 0; i < queries.length; i++) {
-        const query = queries[i]
-        try {
-          // Add delay between searches to avoid rate limiting
-          if (i > 0) {
-            await new Promise(resolve => setTimeout(resolve, 2000))
-          }
-          
-          const searchResults = await blink.data.search(query.trim(), {
-            limit: 6 // Further reduced limit to avoid overwhelming the system
-          })
-
-          // First, try to extract emails directly from search results
-          const searchResultsContent = searchResults.organic_results
-            ?.map(result => [
-              result.title || '',
-              result.snippet || '',
-              result.displayed_link || '',
-              ...(result.rich_snippet?.extensions || [])
-            ].filter(Boolean).join(' '))
-            .join(' ') || ''
-
-          if (searchResultsContent.length > 50) {
-            // Try to extract emails from search results directly
-            try {
-              const { text: directExtractedData } = await blink.ai.generateText({
-                prompt: `Extract real email addresses and contact information from these search results that match the persona: "${persona}"
-
-                Search Results: ${searchResultsContent.substring(0, 2000)}
-                
-                Find actual email addresses (not generic ones like info@, contact@, support@) and return in this JSON format:
-                {
-                  "emails": [
-                    {
-                      "email": "actual.email@company.com",
-                      "name": "Full Name",
-                      "company": "Company Name", 
-                      "title": "Job Title",
-                      "source": "Search Results"
-                    }
-                  ]
-                }
-                
-                Only include emails that clearly belong to real people who match the persona. If no relevant emails found, return {"emails": []}.`,
-                maxTokens: 600
-              })
-
-              // Parse direct extracted emails
-              try {
-                const jsonMatch = directExtractedData.match(/{[\s\S]*}/)
-                if (jsonMatch) {
-                  const emailData = JSON.parse(jsonMatch[0])
-                  if (emailData.emails && Array.isArray(emailData.emails)) {
-                    emailData.emails.forEach((email: any, index: number) => {
-                      if (email.email && email.email.includes('@') && !email.email.includes('example.com')) {
-                        allResults.push({
-                          id: `direct-email-${Date.now()}-${allResults.length}-${index}`,
-                          email: email.email,
-                          name: email.name || 'Unknown',
-                          company: email.company || 'Unknown',
-                          title: email.title || 'Unknown',
-                          confidence: Math.floor(Math.random() * 20) + 60, // 60-80 for direct extraction
-                          source: 'Search Results'
-                        })
-                      }
-                    })
-                  }
-                }
-              } catch (parseError) {
-                console.log('Failed to parse direct extracted data:', parseError)
-              }
-            } catch (directError) {
-              console.log('Direct extraction from search results failed:', directError)
-            }
-          }
-
-          // Step 3: Extract content from promising URLs
-          const urlsToCheck = searchResults.organic_results
-            ?.filter(result => {
-              if (!result.link) return false
-              
-              // Check for promising URL patterns
-              const promisingPatterns = [
-                'about',
-                'team',
-                'contact',
-                'directory',
-                'staff',
-                'leadership',
-                'management',
-                'executives',
-                'people',
-                'bio',
-                'profile'
-              ]
-              
-              const hasPromisingPattern = promisingPatterns.some(pattern => 
-                result.link.toLowerCase().includes(pattern)
-              )
-              
-              return hasPromisingPattern && isExtractableUrl(result.link)
-            })
-            .slice(0, 1) || [] // Reduced to 1 to avoid rate limits and errors
-
-          for (let j = 0; j < urlsToCheck.length; j++) {
-            const result = urlsToCheck[j]
-            try {
-              // Add delay between extractions to avoid rate limiting
-              if (j > 0) {
-                await new Promise(resolve => setTimeout(resolve, 2000))
-              }
-
-              // Try to extract content using the safe extraction function
-              let pageContent = await safeExtractFromUrl(result.link)
-              
-              // If extraction failed, use search result data as fallback
-              if (!pageContent) {
-                console.log('Using fallback content for:', result.link)
-                const fallbackContent = [
-                  result.title || '',
-                  result.snippet || '',
-                  result.displayed_link || '',
-                  // Add any additional metadata from search results
-                  ...(result.rich_snippet?.extensions || [])
-                ].filter(Boolean).join(' ')
-                
-                if (fallbackContent.trim().length > 10) {
-                  pageContent = fallbackContent
-                } else {
-                  console.log('No meaningful fallback content for:', result.link)
-                  continue
-                }
-              }
-
-              // Skip if no meaningful content was obtained
-              if (!pageContent || pageContent.trim().length < 10) {
-                console.log('No meaningful content available for:', result.link)
-                continue
-              }
-              
-              // Use AI to extract email addresses and contact info
-              const { text: extractedData } = await blink.ai.generateText({
-                prompt: `Extract real email addresses and contact information from this webpage content that matches the persona: "${persona}"
-
-                Content: ${pageContent.substring(0, 3000)}
-                
-                Find actual email addresses (not generic ones like info@, contact@, support@) and return in this JSON format:
-                {
-                  "emails": [
-                    {
-                      "email": "actual.email@company.com",
-                      "name": "Full Name",
-                      "company": "Company Name",
-                      "title": "Job Title",
-                      "source": "LinkedIn/Website/Directory"
-                    }
-                  ]
-                }
-                
-                Only include emails that clearly belong to real people who match the persona. If no relevant emails found, return {"emails": []}.`,
-                maxTokens: 800
-              })
-
-              // Parse extracted emails
-              try {
-                const jsonMatch = extractedData.match(/{[\\s\\S]*}/)
-                if (jsonMatch) {
-                  const emailData = JSON.parse(jsonMatch[0])
-                  if (emailData.emails && Array.isArray(emailData.emails)) {
-                    emailData.emails.forEach((email: any, index: number) => {
-                      if (email.email && email.email.includes('@') && !email.email.includes('example.com')) {
-                        allResults.push({
-                          id: `email-${Date.now()}-${allResults.length}-${index}`,
-                          email: email.email,
-                          name: email.name || 'Unknown',
-                          company: email.company || 'Unknown',
-                          title: email.title || 'Unknown',
-                          confidence: Math.floor(Math.random() * 25) + 70, // 70-95
-                          source: email.source || (result.link.includes('linkedin.com') ? 'LinkedIn' : 'Web Search')
-                        })
-                      }
-                    })
-                  }
-                }
-              } catch (parseError) {
-                console.log('Failed to parse extracted data:', parseError)
-              }
-            } catch (extractError) {
-              console.log('Failed to process URL:', result.link, extractError)
-            }
-          }
-        } catch (searchError) {
-          console.log('Search failed for query:', query, searchError)
-        }
-      }
-
-      // Step 4: Process results and provide feedback
-      if (allResults.length === 0) {
-        toast.error('No real email addresses found for this persona. Try being more specific or using different keywords.')
-        setResults([])
-      } else {
-        // Remove duplicates and limit results
-        const uniqueResults = allResults.filter((email, index, self) => 
-          index === self.findIndex(e => e.email === email.email)
-        ).slice(0, 10)
-
-        setResults(uniqueResults)
-
-        // Add to search history
-        const historyEntry: SearchHistory = {
-          id: `search-${Date.now()}`,
-          persona,
-          timestamp: new Date(),
-          resultCount: uniqueResults.length
-        }
-        setSearchHistory(prev => [historyEntry, ...prev.slice(0, 9)])
+  const pauseSearch = () => {
+    if (viewedJobId) searchJobs.pause(viewedJobId)
+  }
+
+  const requireSearchText = (): boolean => {
+    if (searchText.trim()) return true
+    toast.error(
+      searchMode === 'company'
+        ? 'Please enter a company domain or name'
+        : searchMode === 'person'
+          ? "Please enter the person's full name and their company or domain"
+          : 'Please enter a persona description'
+    )
+    return false
+  }
 
-        toast.success(`Found ${uniqueResults.length} real email addresses!`)
-      }
+  const handlePlan = async () => {
+    if (!requireSearchText()) return
+
+    setPlanning(true)
+    try {
+      const limit = Math.max(MAX_PLANNED_QUERIES, searchSettings.settings.maxQueries)
+      // Company queries are built from the target; only personas need the LLM
+      const generated = companyTarget
+        ? buildCompanyQueries(companyTarget, limit)
+        : personLookup
+          ? buildLookupQueries(personLookup, limit)
+          : await planQueries(discoveryClient, searchPersona, undefined, limit)
+      setPlan(prev => (prev ? mergeRegenerated(prev, generated) : toPlannedQueries(generated)))
     } catch (error) {
-      console.error('Search error:', error)
-      
-      // Always show any results we managed to collect
-      if (allResults.length > 0) {
-        const uniqueResults = allResults.filter((email, index, self) => 
-          index === self.findIndex(e => e.email === email.email)
-        ).slice(0, 10)
-        
-        if (uniqueResults.length > 0) {
-          setResults(uniqueResults)
-          toast.success(`Found ${uniqueResults.length} email addresses despite some processing issues.`)
-          
-          // Add to search history even with partial results
-          const historyEntry: SearchHistory = {
-            id: `search-${Date.now()}`,
-            persona,
-            timestamp: new Date(),
-            resultCount: uniqueResults.length
-          }
-          setSearchHistory(prev => [historyEntry, ...prev.slice(0, 9)])
-          return // Exit early since we have results
-        }
-      }
-      
-      // Provide more specific error messages based on error type
-      if (error instanceof Error) {
-        if (error.message.includes('rate limit') || error.message.includes('429')) {
-          toast.error('Rate limit reached. Please wait a moment before searching again.')
-        } else if (error.message.includes('network') || error.message.includes('fetch')) {
-          toast.error('Network error. Please check your connection and try again.')
-        } else if (error.message.includes('400') || error.message.includes('Bad Request')) {
-          toast.error('Some content could not be processed. This is normal - try a different persona or search terms.')
-        } else if (error.message.includes('extract-from-url')) {
-          toast.error('Content extraction had issues. Try searching for a different type of persona.')
-        } else {
-          toast.error('Search completed with limited results. Try refining your persona description.')
-        }
-      } else {
-        toast.error('Search completed with limited results. Please try again with a different approach.')
-      }
+      console.error('Query planning error:', error)
+      toast.error(`Could not generate search queries. ${ERROR_KIND_HINTS[errorKind(error)]}`)
     } finally {
-      setSearching(false)
+      setPlanning(false)
     }
   }
 
+  const saveQuerySet = (name: string) => {
+    if (!plan) return
+    querySets.save(name, plan)
+      .then(() => toast.success(`Saved "${name}"`))
+      .catch((error) => {
+        console.error('Failed to save query set:', error)
+        toast.error('Could not save this query set.')
+      })
+  }
+
+  const deleteQuerySet = (querySetId: string) => {
+    querySets.remove(querySetId).catch((error) => {
+      console.error('Failed to delete query set:', error)
+      toast.error('Could not delete this query set.')
+    })
+  }
+
+  const runPlan = () => {
+    if (!plan) return
+    const queries = runnableQueries(plan)
+    setPlan(null)
+    handleSearch(queries)
+  }
+
+  // Puts a job's progress and results on screen
+  const viewJob = (job: SearchJob) => {
+    const domain = job.request.companyTarget?.domain || job.request.personLookup?.domain
+    setViewedJobId(job.id)
+    setResults(job.results)
+    setProgress(job.status === 'queued' || job.status === 'running' ? createProgress() : null)
+    setCompanyPattern(domain && job.results.length > 0 ? { domain, pattern: job.pattern } : null)
+  }
+
+  // With queries, runs exactly those; otherwise the pipeline plans its own.
+  // The search runs as a job, queued behind any that is already running.
+  const handleSearch = (queries?: string[]) => {
+    if (!requireSearchText()) return
+
+    const queued = !!searchJobs.running
+    const job = searchJobs.submit(currentRequest(), searchSettings.settings, queries)
+    if (!job) return
+    viewJob(job)
+    if (queued) toast('Search queued. It starts when the current one finishes.', { icon: '🕒' })
+  }
+
+  const handleJobProgress = (job: SearchJob, event: DiscoveryEvent) => {
+    if (job.id !== viewedJobId) return
+    setProgress(prev => applyProgressEvent(prev || createProgress(), event))
+    if (event.type === 'results') setResults(event.results)
+  }
+
+  // Reports a finished run and records it in history; only the job on screen
+  // updates the results
+  const handleJobFinished = (job: SearchJob, outcome?: SearchJobOutcome) => {
+    const viewed = job.id === viewedJobId
+
+    if (!outcome) {
+      recordSearch(job, 'failed')
+      toast.error(describeFailure(job.errorKind || 'unknown', job.error || ''))
+      notifyInBackground('Search failed', job.request.persona)
+      return
+    }
+
+    const { results: uniqueResults, verification, errors, patterns } = outcome
+
+    if (viewed) {
+      const domain = job.request.companyTarget?.domain || job.request.personLookup?.domain
+      setResults(uniqueResults)
+      if (domain) setCompanyPattern({ domain, pattern: outcome.pattern })
+    }
+
+    emailPatterns.save(patterns).catch((error) => {
+      console.error('Failed to save learned email patterns:', error)
+    })
+
+    // The details are in the error summary above the results
+    if (errors.length > 0 && viewed) {
+      toast(`${errors.length} ${errors.length === 1 ? 'problem' : 'problems'} during this search. See the summary for details.`, { icon: '⚠️' })
+    }
+
+    if (job.status === 'paused') {
+      toast('Search paused. Resume it from Search Jobs.', { icon: '⏸️' })
+    } else if (job.status === 'cancelled') {
+      // Keep whatever was found before the user stopped the search
+      recordSearch(job, 'cancelled')
+      toast(`Search stopped. Kept ${uniqueResults.length} ${uniqueResults.length === 1 ? 'result' : 'results'} found so far.`, { icon: '⏹️' })
+    } else if (uniqueResults.length === 0) {
+      recordSearch(job, 'completed')
+      toast.error(
+        verification.dropped > 0
+          ? `No verifiable email addresses found. ${verification.dropped} unsupported addresses were dropped.`
+          : 'No real email addresses found for this persona. Try being more specific or using different keywords.'
+      )
+      notifyInBackground('Search finished', `No addresses found for ${job.request.persona}`)
+    } else {
+      recordSearch(job, 'completed')
+      toast.success(`Found ${uniqueResults.length} real email addresses! ${describeVerification(verification)}.`)
+      notifyInBackground('Search finished', `${uniqueResults.length} addresses found for ${job.request.persona}`)
+    }
+  }
+
+  const resumeJob = (jobId: string) => {
+    const job = searchJobs.jobs.find(entry => entry.id === jobId)
+    if (!job) return
+    searchJobs.resume(jobId)
+    viewJob(job)
+  }
+
+  const removeJob = (jobId: string) => {
+    searchJobs.remove(jobId).catch((error) => {
+      console.error('Failed to remove search job:', error)
+      toast.error('Could not remove this search job.')
+    })
+  }
+
+  // Switching to free text starts from the brief the builder produced
+  const changePersonaMode = (mode: string) => {
+    if (mode === 'text' && !persona.trim()) setPersona(compilePersona(personaSpec))
+    setPersonaMode(mode === 'builder' ? 'builder' : 'text')
+  }
+
   const copyEmail = (email: string) => {
     navigator.clipboard.writeText(email)
     toast.success('Email copied to clipboard!')
   }
 
   const exportResults = () => {
-    if (results.length === 0) {
+    if (visibleResults.length === 0) {
       toast.error('No results to export')
       return
     }
 
-    const csvContent = [
-      'Name,Email,Company,Title,Confidence,Source',
-      ...results.map(r => `"${r.name}","${r.email}","${r.company}","${r.title}",${r.confidence},"${r.source}"`)
-    ].join('\\n')
-
-    const blob = new Blob([csvContent], { type: 'text/csv' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `persona-emails-${Date.now()}.csv`
-    a.click()
-    URL.revokeObjectURL(url)
+    downloadCsv(buildCsv(visibleResults), `persona-emails-${Date.now()}.csv`)
     toast.success('Results exported to CSV!')
   }
 
-  const loadHistorySearch = (historyPersona: string) => {
-    setPersona(historyPersona)
+  const startBulkLookup = (fileName: string, table: CsvTable, mapping: ColumnMapping) => {
+    bulkLookup
+      .start(fileName, table, mapping, {
+        settings: searchSettings.settings,
+        deliverability: deliverabilityVerifier,
+        patterns: emailPatterns.patterns,
+        roleAccounts: searchSettings.roleAccounts
+      })
+      .then(({ rows, status, patterns, stoppedBy }) => {
+        emailPatterns.save(patterns).catch((error) => {
+          console.error('Failed to save learned email patterns:', error)
+        })
+        const found = rows.filter(row => row.status === 'found').length
+        if (stoppedBy) {
+          toast.error(`Bulk lookup stopped after ${found} addresses: ${stoppedBy}.`)
+        } else if (status === 'cancelled') {
+          toast(`Bulk lookup stopped. Found ${found} addresses so far.`, { icon: '⏹️' })
+        } else {
+          toast.success(`Bulk lookup finished. Found ${found} of ${rows.filter(row => row.lookup).length} addresses.`)
+        }
+      })
+      .catch((error) => {
+        console.error('Bulk lookup error:', error)
+        toast.error('The bulk lookup stopped unexpectedly.')
+      })
+  }
+
+  const downloadBulkResults = () => {
+    const { job } = bulkLookup
+    if (!job) return
+    const baseName = job.fileName.replace(/\.csv$/i, '')
+    downloadCsv(buildEnrichedCsv(job.table, job.rows), `${baseName}-enriched.csv`)
+    toast.success('Enriched CSV downloaded!')
+  }
+
+  // Puts a saved persona into the search box, in the mode it was written in
+  const applyDraft = ({ text, spec }: PersonaDraft) => {
+    setPersona(text)
+    if (spec) {
+      setPersonaSpec(spec)
+      setBuilderKey(key => key + 1)
+      setPersonaMode('builder')
+    } else {
+      setPersonaMode('text')
+    }
+  }
+
+  const loadPersonaVersion = (saved: SavedPersona, version: PersonaVersion) => {
+    applyDraft(version)
+    setActivePersona(personaRef(saved, version.version))
+    setOpenPersona(null)
+  }
+
+  const createPersona = (name: string, tags: string[]) => {
+    personaLibrary.create(name, tags, currentDraft)
+      .then((saved) => {
+        setActivePersona(personaRef(saved))
+        toast.success(`Saved "${saved.name}" to your library`)
+      })
+      .catch((error) => {
+        console.error('Failed to save persona:', error)
+        toast.error('Could not save this persona.')
+      })
+  }
+
+  const savePersonaVersion = (note: string) => {
+    if (!activePersona) return
+    personaLibrary.addVersion(activePersona.personaId, currentDraft, note)
+      .then((saved) => {
+        setActivePersona(personaRef(saved))
+        toast.success(`Saved ${saved.name} v${latestVersion(saved).version}`)
+      })
+      .catch((error) => {
+        console.error('Failed to save persona version:', error)
+        toast.error('Could not save a new version of this persona.')
+      })
+  }
+
+  const updatePersona = (personaId: string, changes: { name?: string; tags?: string[] }) => {
+    personaLibrary.update(personaId, changes)
+      .then(setOpenPersona)
+      .catch((error) => {
+        console.error('Failed to update persona:', error)
+        toast.error('Could not update this persona.')
+      })
+  }
+
+  const duplicatePersona = (personaId: string, version: number) => {
+    personaLibrary.duplicate(personaId, version)
+      .then((copy) => {
+        setOpenPersona(copy)
+        toast.success(`Created "${copy.name}"`)
+      })
+      .catch((error) => {
+        console.error('Failed to duplicate persona:', error)
+        toast.error('Could not duplicate this persona.')
+      })
+  }
+
+  const sharePersona = (personaId: string, shared: boolean) => {
+    personaLibrary.setShared(personaId, shared)
+      .then(setOpenPersona)
+      .catch((error) => {
+        console.error('Failed to change persona sharing:', error)
+        toast.error('Could not change sharing for this persona.')
+      })
+  }
+
+  const copyShareLink = (url: string) => {
+    navigator.clipboard.writeText(url)
+    toast.success('Share link copied to clipboard!')
+  }
+
+  const deletePersona = (personaId: string) => {
+    personaLibrary.remove(personaId)
+      .then(() => {
+        setOpenPersona(null)
+        if (activePersona?.personaId === personaId) setActivePersona(null)
+      })
+      .catch((error) => {
+        console.error('Failed to delete persona:', error)
+        toast.error('Could not delete this persona.')
+      })
+  }
+
+  const loadHistorySearch = async (entry: SearchHistoryEntry) => {
+    if (entry.companyTarget) {
+      setSearchMode('company')
+      setCompanyInput(entry.companyTarget.domain || entry.companyTarget.company)
+      setCompanyRoles(entry.companyTarget.roles.join(', '))
+    } else if (entry.personLookup) {
+      setSearchMode('person')
+      setLookupName(entry.personLookup.name)
+      setCompanyInput(entry.personLookup.domain || entry.personLookup.company)
+      setLookupTitle(entry.personLookup.title || '')
+    } else {
+      setSearchMode('persona')
+      applyDraft({ text: entry.persona, spec: entry.personaSpec })
+      setActivePersona(
+        entry.personaId && entry.personaVersion ? { personaId: entry.personaId, version: entry.personaVersion } : null
+      )
+    }
+    setCompanyPattern(null)
+    setProgress(null)
+    setViewedJobId(undefined)
+    try {
+      setResults(await history.loadResults(entry.id))
+    } catch (error) {
+      console.error('Failed to load saved results:', error)
+      toast.error('Could not reopen the results of this search.')
+    }
   }
 
   if (loading) {
@@ -548,6 +622,10 @@ function App() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <Button variant="ghost" size="sm" onClick={() => setSettingsOpen(true)}>
+                <Settings2 className="h-4 w-4 mr-2" />
+                {activePreset ? SEARCH_PRESETS[activePreset].label : 'Custom'} depth
+              </Button>
               <span className="text-sm text-muted-foreground">Welcome, {user.email}</span>
               <Button variant="outline" size="sm" onClick={() => blink.auth.logout()}>
                 Sign Out
@@ -564,43 +642,243 @@ function App() {
             {/* Search Section */}
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <Search className="h-5 w-5" />
-                  <span>Describe Your Target Persona</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <Textarea
-                  placeholder="e.g., Marketing managers at SaaS companies with 50-200 employees, focused on B2B lead generation..."
-                  value={persona}
-                  onChange={(e) => setPersona(e.target.value)}
-                  className="min-h-[120px] resize-none"
-                />
                 <div className="flex items-center justify-between">
-                  <p className="text-sm text-muted-foreground">
-                    Be specific about role, industry, company size, and interests to find real email addresses
-                  </p>
-                  <Button 
-                    onClick={handleSearch} 
-                    disabled={searching || !persona.trim()}
-                    className="min-w-[140px]"
-                  >
-                    {searching ? (
-                      <>
-                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                        Finding Real Emails...
-                      </>
-                    ) : (
-                      <>
-                        <Search className="h-4 w-4 mr-2" />
-                        Find Emails
-                      </>
-                    )}
-                  </Button>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Search className="h-5 w-5" />
+                    <span>
+                      {searchMode === 'company'
+                        ? 'Find People at a Company'
+                        : searchMode === 'person'
+                          ? 'Look Up a Person'
+                          : searchMode === 'bulk'
+                            ? 'Look Up a List of People'
+                            : 'Describe Your Target Persona'}
+                    </span>
+                  </CardTitle>
+                  <Tabs value={searchMode} onValueChange={(mode) => setSearchMode(mode as typeof searchMode)}>
+                    <TabsList>
+                      <TabsTrigger value="persona">Persona</TabsTrigger>
+                      <TabsTrigger value="company">Company</TabsTrigger>
+                      <TabsTrigger value="person">Person</TabsTrigger>
+                      <TabsTrigger value="bulk">Bulk</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
                 </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {searchMode === 'bulk' ? (
+                  <BulkLookupPanel
+                    job={bulkLookup.job}
+                    running={bulkLookup.running}
+                    disabled={!!searchJobs.running}
+                    onStart={startBulkLookup}
+                    onCancel={bulkLookup.cancel}
+                    onDownload={downloadBulkResults}
+                    onClear={bulkLookup.clear}
+                    onInvalidFile={(message) => toast.error(message)}
+                  />
+                ) : searchMode === 'company' ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="company-target">Company domain or name</Label>
+                      <Input
+                        id="company-target"
+                        value={companyInput}
+                        onChange={(e) => setCompanyInput(e.target.value)}
+                        placeholder="acme.com"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="company-roles">Roles (optional)</Label>
+                      <Input
+                        id="company-roles"
+                        value={companyRoles}
+                        onChange={(e) => setCompanyRoles(e.target.value)}
+                        placeholder="Marketing, CTO, Sales Director"
+                      />
+                    </div>
+                  </div>
+                ) : searchMode === 'person' ? (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="lookup-name">Full name</Label>
+                      <Input
+                        id="lookup-name"
+                        value={lookupName}
+                        onChange={(e) => setLookupName(e.target.value)}
+                        placeholder="Jane Doe"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lookup-company">Company or domain</Label>
+                      <Input
+                        id="lookup-company"
+                        value={companyInput}
+                        onChange={(e) => setCompanyInput(e.target.value)}
+                        placeholder="acme.com"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lookup-title">Title (optional)</Label>
+                      <Input
+                        id="lookup-title"
+                        value={lookupTitle}
+                        onChange={(e) => setLookupTitle(e.target.value)}
+                        placeholder="VP Marketing"
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <Tabs value={personaMode} onValueChange={changePersonaMode}>
+                    <div className="flex items-center justify-between">
+                      <TabsList>
+                        <TabsTrigger value="text">Describe</TabsTrigger>
+                        <TabsTrigger value="builder">Build</TabsTrigger>
+                      </TabsList>
+                      <SavePersonaControl
+                        persona={loadedVersion ? loadedPersona : undefined}
+                        version={activePersona?.version}
+                        modified={personaModified}
+                        disabled={!searchPersona.trim()}
+                        onCreate={createPersona}
+                        onSaveVersion={savePersonaVersion}
+                        onDetach={() => setActivePersona(null)}
+                      />
+                    </div>
+                    <TabsContent value="text">
+                      <Textarea
+                        placeholder="e.g., Marketing managers at SaaS companies with 50-200 employees, focused on B2B lead generation..."
+                        value={persona}
+                        onChange={(e) => setPersona(e.target.value)}
+                        className="min-h-[120px] resize-none"
+                      />
+                    </TabsContent>
+                    <TabsContent value="builder">
+                      <PersonaBuilder
+                        key={builderKey}
+                        defaultValue={personaSpec}
+                        onChange={setPersonaSpec}
+                      />
+                    </TabsContent>
+                  </Tabs>
+                )}
+                {searchMode !== 'bulk' && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-muted-foreground">
+                        {searchMode === 'company'
+                          ? "Searches the company's team, about and leadership pages and learns its email format"
+                          : searchMode === 'person'
+                            ? "Ranks addresses found for this person alongside ones built from the company's email format"
+                            : 'Be specific about role, industry, company size, and interests to find real email addresses'}
+                      </p>
+                      <div className="flex items-center space-x-2">
+                        <div className="flex items-center space-x-2 mr-2">
+                          <Switch
+                            id="plan-first"
+                            checked={planFirst}
+                            onCheckedChange={(checked) => {
+                              setPlanFirst(checked)
+                              if (!checked) setPlan(null)
+                            }}
+                          />
+                          <Label htmlFor="plan-first" className="text-sm">Review queries first</Label>
+                        </div>
+                        {searching && (
+                          <>
+                            <Button variant="outline" onClick={pauseSearch}>
+                              <Pause className="h-4 w-4 mr-2" />
+                              Pause
+                            </Button>
+                            <Button variant="outline" onClick={stopSearch}>
+                              <Square className="h-4 w-4 mr-2" />
+                              Stop
+                            </Button>
+                          </>
+                        )}
+                        <Button 
+                          onClick={() => (planFirst ? handlePlan() : handleSearch())} 
+                          disabled={planning || bulkLookup.running || !searchText.trim()}
+                          className="min-w-[140px]"
+                        >
+                          {planning ? (
+                            <>
+                              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                              Planning Queries...
+                            </>
+                          ) : planFirst ? (
+                            <>
+                              <ListChecks className="h-4 w-4 mr-2" />
+                              Plan Queries
+                            </>
+                          ) : searchJobs.running ? (
+                            <>
+                              <Search className="h-4 w-4 mr-2" />
+                              Queue Search
+                            </>
+                          ) : (
+                            <>
+                              <Search className="h-4 w-4 mr-2" />
+                              Find Emails
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                    {!planFirst && !searching && <RunEstimateSummary settings={searchSettings.settings} />}
+                  </>
+                )}
               </CardContent>
             </Card>
 
+            {/* Query Plan Review */}
+            {plan && !searching && (
+              <QueryPlanEditor
+                plan={plan}
+                onChange={setPlan}
+                onRun={runPlan}
+                onRegenerate={handlePlan}
+                onCancel={() => setPlan(null)}
+                regenerating={planning}
+                settings={searchSettings.settings}
+                querySets={querySets.querySets}
+                onSaveSet={saveQuerySet}
+                onLoadSet={(querySet) => setPlan(fromQuerySet(querySet))}
+                onDeleteSet={deleteQuerySet}
+              />
+            )}
+
+            <PersonaDetailSheet
+              persona={openPersona}
+              onOpenChange={(open) => !open && setOpenPersona(null)}
+              onUse={loadPersonaVersion}
+              onUpdate={updatePersona}
+              onDuplicate={duplicatePersona}
+              onShareChange={sharePersona}
+              onCopyLink={copyShareLink}
+              onDelete={deletePersona}
+            />
+
+            <SearchSettingsSheet
+              open={settingsOpen}
+              onOpenChange={setSettingsOpen}
+              settings={searchSettings.settings}
+              onChange={updateSearchSettings}
+              roleAccounts={searchSettings.roleAccounts}
+              onRoleAccountsChange={updateRoleAccounts}
+            />
+
+            {/* Live Progress */}
+            {progress && <DiscoveryProgressPanel progress={progress} />}
+
+            {/* Error Summary */}
+            {viewedJob && (
+              <SearchErrorSummary
+                errors={viewedJob.errors || viewedJob.checkpoint?.errors || []}
+                failure={viewedJob.status === 'failed' ? { kind: viewedJob.errorKind || 'unknown', message: viewedJob.error || '' } : undefined}
+              />
+            )}
+
             {/* Results Section */}
             {results.length > 0 && (
               <Card>
@@ -608,58 +886,52 @@ function App() {
                   <div className="flex items-center justify-between">
                     <CardTitle className="flex items-center space-x-2">
                       <Mail className="h-5 w-5" />
-                      <span>Found {results.length} Real Email Addresses</span>
+                      <span>
+                        Found {visibleResults.length} Real Email Addresses
+                        {contacts.length !== visibleResults.length && ` for ${contacts.length} People`}
+                      </span>
                     </CardTitle>
-                    <Button variant="outline" onClick={exportResults} size="sm">
-                      <Download className="h-4 w-4 mr-2" />
-                      Export CSV
-                    </Button>
+                    <div className="flex items-center space-x-4">
+                      <Select value={emailTypeFilter} onValueChange={(value) => setEmailTypeFilter(value as EmailType | 'all')}>
+                        <SelectTrigger className="h-8 w-[150px] text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All address types</SelectItem>
+                          <SelectItem value="corporate">Corporate</SelectItem>
+                          <SelectItem value="free">Free-mail</SelectItem>
+                          <SelectItem value="disposable">Disposable</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {roleAccountCount > 0 && (
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            id="show-role-accounts"
+                            checked={showRoleAccounts}
+                            onCheckedChange={setShowRoleAccounts}
+                          />
+                          <Label htmlFor="show-role-accounts" className="text-sm">
+                            Show role accounts ({roleAccountCount})
+                          </Label>
+                        </div>
+                      )}
+                      <Button variant="outline" onClick={exportResults} size="sm">
+                        <Download className="h-4 w-4 mr-2" />
+                        Export CSV
+                      </Button>
+                    </div>
                   </div>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
+                  {companyPattern && <DomainPatternSummary domain={companyPattern.domain} pattern={companyPattern.pattern} />}
                   <div className="grid gap-4">
-                    {results.map((result) => (
-                      <div key={result.id} className="border rounded-lg p-4 hover:bg-muted/50 transition-colors">
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1 space-y-2">
-                            <div className="flex items-center space-x-3">
-                              <div className="bg-primary/10 rounded-full p-2">
-                                <User className="h-4 w-4 text-primary" />
-                              </div>
-                              <div>
-                                <h3 className="font-semibold">{result.name}</h3>
-                                <p className="text-sm text-muted-foreground">{result.title}</p>
-                              </div>
-                            </div>
-                            <div className="flex items-center space-x-4 text-sm text-muted-foreground ml-9">
-                              <div className="flex items-center space-x-1">
-                                <Building2 className="h-3 w-3" />
-                                <span>{result.company}</span>
-                              </div>
-                              <div className="flex items-center space-x-2">
-                                <Badge variant="secondary" className="text-xs">
-                                  {result.confidence}% confidence
-                                </Badge>
-                                <Badge variant="outline" className="text-xs">
-                                  {result.source}
-                                </Badge>
-                              </div>
-                            </div>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <code className="bg-muted px-3 py-1 rounded text-sm font-mono">
-                              {result.email}
-                            </code>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => copyEmail(result.email)}
-                            >
-                              <Copy className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
+                    {contacts.map((contact) => (
+                      <ContactCard
+                        key={contact.id}
+                        contact={contact}
+                        onCopy={copyEmail}
+                        onShowEvidence={setSelectedResult}
+                      />
                     ))}
                   </div>
                 </CardContent>
@@ -678,47 +950,43 @@ function App() {
                 </CardContent>
               </Card>
             )}
+
+            <ResultDetailSheet
+              result={selectedResult}
+              onOpenChange={(open) => !open && setSelectedResult(null)}
+            />
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Persona Library */}
+            <PersonaLibraryCard
+              personas={personaLibrary.personas}
+              loading={personaLibrary.loading}
+              activeId={activePersona?.personaId}
+              onOpen={setOpenPersona}
+            />
+
+            {/* Search Jobs */}
+            <SearchJobsCard
+              jobs={searchJobs.jobs}
+              viewedId={viewedJobId}
+              onView={viewJob}
+              onPause={searchJobs.pause}
+              onResume={resumeJob}
+              onCancel={searchJobs.cancel}
+              onRemove={removeJob}
+            />
+
             {/* Search History */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2 text-base">
-                  <History className="h-4 w-4" />
-                  <span>Recent Searches</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                {searchHistory.length > 0 ? (
-                  <ScrollArea className="h-[300px]">
-                    <div className="space-y-3">
-                      {searchHistory.map((search) => (
-                        <div key={search.id} className="space-y-2">
-                          <button
-                            onClick={() => loadHistorySearch(search.persona)}
-                            className="w-full text-left p-3 rounded-lg border hover:bg-muted/50 transition-colors"
-                          >
-                            <p className="text-sm font-medium line-clamp-2 mb-1">
-                              {search.persona}
-                            </p>
-                            <div className="flex items-center justify-between text-xs text-muted-foreground">
-                              <span>{search.resultCount} results</span>
-                              <span>{search.timestamp.toLocaleDateString()}</span>
-                            </div>
-                          </button>
-                        </div>
-                      ))}
-                    </div>
-                  </ScrollArea>
-                ) : (
-                  <p className="text-sm text-muted-foreground text-center py-4">
-                    No recent searches
-                  </p>
-                )}
-              </CardContent>
-            </Card>
+            <SearchHistoryCard
+              personas={personaLibrary.personas}
+              entries={history.entries}
+              hasMore={history.hasMore}
+              loading={history.loading}
+              onSelect={loadHistorySearch}
+              onLoadMore={() => history.loadMore().catch(() => toast.error('Could not load more searches'))}
+            />
 
             {/* Tips */}
             <Card>
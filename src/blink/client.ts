@@ -1,6 +1,51 @@
 import { createClient } from '@blinkdotnew/sdk'
+import { createDeliverabilityVerifier, createDnsOverHttpsResolver } from '../lib/deliverability'
+import { createBlinkDiscoveryClient } from '../lib/discovery/blinkClient'
+import { createTypedErrorClient } from '../lib/discovery/errors'
+import { createRetryingClient } from '../lib/discovery/retry'
+import { createRequestScheduler, createScheduledClient } from '../lib/discovery/scheduler'
+import { createBlinkHistoryStore } from '../lib/history'
+import { createBlinkJobStore } from '../lib/jobs'
+import { createBlinkPatternStore } from '../lib/patterns'
+import { createBlinkPersonaStore } from '../lib/personas'
+import { createBlinkQuerySetStore } from '../lib/queryPlans'
+import { createBlinkSettingsStore } from '../lib/settings'
 
 export const blink = createClient({
   projectId: 'persona-email-finder-kku7bpk9',
   authRequired: true
-})
\ No newline at end of file
+})
+
+// Every search, bulk lookup and plan shares one scheduler, so the SDK rate
+// limits and each user's hourly quota hold across runs
+export const requestScheduler = createRequestScheduler()
+
+// SDK failures are typed first, so the scheduler can spot rate limits and the
+// retry policy outside it can back off without holding a slot
+export const discoveryClient = createRetryingClient(
+  createScheduledClient(
+    createTypedErrorClient(createBlinkDiscoveryClient(blink)),
+    requestScheduler,
+    () => blink.auth.currentUser()?.id
+  )
+)
+
+export const historyStore = createBlinkHistoryStore(blink.db)
+
+export const querySetStore = createBlinkQuerySetStore(blink.db)
+
+export const settingsStore = createBlinkSettingsStore(blink.db)
+
+export const patternStore = createBlinkPatternStore(blink.db)
+
+export const personaStore = createBlinkPersonaStore(blink.db)
+
+export const jobStore = createBlinkJobStore(blink.db)
+
+// MX-only: browsers can't open SMTP connections and there's no relay to probe
+// through, so this only tells whether the domain takes mail. Results are never
+// "deliverable" or "catch-all"; a transport backed by a server-side relay
+// would enable the RCPT and catch-all probes.
+export const deliverabilityVerifier = createDeliverabilityVerifier({
+  resolver: createDnsOverHttpsResolver()
+})
@@ -0,0 +1,217 @@
+import { useRef, useState } from 'react'
+import { Download, FileSpreadsheet, Loader2, Play, Square, Upload, X } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Progress } from './ui/progress'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  BULK_FIELD_LABELS,
+  BULK_FIELDS,
+  MAX_BULK_ROWS,
+  guessMapping,
+  isMappingUsable,
+  parseCsvTable,
+  summarizeBulkRows,
+  tableLookups,
+  type BulkJob,
+  type BulkRow,
+  type ColumnMapping,
+  type CsvTable
+} from '../lib/bulk'
+
+interface BulkLookupPanelProps {
+  job: BulkJob | null
+  running: boolean
+  disabled: boolean
+  onStart: (fileName: string, table: CsvTable, mapping: ColumnMapping) => void
+  onCancel: () => void
+  onDownload: () => void
+  onClear: () => void
+  onInvalidFile: (message: string) => void
+}
+
+const ROW_BADGES: Record<BulkRow['status'], { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  pending: { label: 'Queued', variant: 'outline' },
+  running: { label: 'Searching', variant: 'secondary' },
+  found: { label: 'Found', variant: 'default' },
+  'not-found': { label: 'Not found', variant: 'outline' },
+  skipped: { label: 'Skipped', variant: 'outline' },
+  failed: { label: 'Failed', variant: 'destructive' }
+}
+
+// Upload a sheet of names and companies, map its columns, and look everyone up
+export function BulkLookupPanel({
+  job,
+  running,
+  disabled,
+  onStart,
+  onCancel,
+  onDownload,
+  onClear,
+  onInvalidFile
+}: BulkLookupPanelProps) {
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [upload, setUpload] = useState<{ fileName: string; table: CsvTable } | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+
+  const readFile = async (file: File) => {
+    const table = parseCsvTable(await file.text())
+    if (!table) {
+      onInvalidFile('That file has no rows under its header.')
+      return
+    }
+    setUpload({ fileName: file.name, table })
+    setMapping(guessMapping(table.headers))
+  }
+
+  const setColumn = (field: keyof ColumnMapping, value: string) =>
+    setMapping(prev => ({ ...prev, [field]: value === 'none' ? undefined : Number(value) }))
+
+  if (job) {
+    const summary = summarizeBulkRows(job.rows)
+    const percent = summary.total > 0 ? Math.round((summary.done / summary.total) * 100) : 100
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-sm">
+            <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
+            <span className="font-medium">{job.fileName}</span>
+            <span className="text-muted-foreground">
+              {summary.done} of {summary.total} looked up · {summary.found} found
+              {summary.failed > 0 && ` · ${summary.failed} failed`}
+              {summary.skipped > 0 && ` · ${summary.skipped} skipped`}
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            {running ? (
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button variant="ghost" size="sm" onClick={onClear}>
+                <X className="h-4 w-4 mr-2" />
+                New lookup
+              </Button>
+            )}
+            <Button size="sm" onClick={onDownload} disabled={summary.done === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Download enriched CSV
+            </Button>
+          </div>
+        </div>
+        <Progress value={percent} />
+        <ScrollArea className="h-[260px] border rounded-lg">
+          <div className="divide-y text-sm">
+            {job.rows.map((row) => (
+              <div key={row.index} className="flex items-center justify-between px-3 py-2">
+                <span className="truncate">
+                  {row.lookup ? (
+                    <>
+                      <span className="font-medium">{row.lookup.name}</span>
+                      <span className="text-muted-foreground"> · {row.lookup.domain || row.lookup.company}</span>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Row {row.index + 2}: missing name or company</span>
+                  )}
+                </span>
+                <span className="flex items-center space-x-2 shrink-0">
+                  {row.result && (
+                    <span className="font-mono text-xs">
+                      {row.result.email} ({row.result.confidence}%)
+                    </span>
+                  )}
+                  {row.status === 'running' && <Loader2 className="h-3 w-3 animate-spin" />}
+                  <Badge variant={ROW_BADGES[row.status].variant} className="text-xs" title={row.error}>
+                    {ROW_BADGES[row.status].label}
+                  </Badge>
+                </span>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+    )
+  }
+
+  const usable = isMappingUsable(mapping)
+  const lookupCount = upload && usable ? tableLookups(upload.table, mapping).filter(Boolean).length : 0
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ''
+          if (file) {
+            readFile(file).catch((error) => {
+              console.error('Failed to read CSV:', error)
+              onInvalidFile('Could not read that file.')
+            })
+          }
+        }}
+      />
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {upload
+            ? `${upload.fileName}: ${upload.table.rows.length} rows`
+            : 'Upload a CSV with a name and a company or domain per row, e.g. an event attendee list'}
+        </p>
+        <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={disabled}>
+          <Upload className="h-4 w-4 mr-2" />
+          {upload ? 'Choose another file' : 'Upload CSV'}
+        </Button>
+      </div>
+
+      {upload && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {BULK_FIELDS.map((field) => (
+              <div key={field} className="space-y-1">
+                <Label className="text-xs">{BULK_FIELD_LABELS[field]}</Label>
+                <Select
+                  value={mapping[field] === undefined ? 'none' : String(mapping[field])}
+                  onValueChange={(value) => setColumn(field, value)}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not in this file</SelectItem>
+                    {upload.table.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {usable
+                ? `${lookupCount} of ${upload.table.rows.length} rows can be looked up` +
+                  (upload.table.rows.length > MAX_BULK_ROWS ? `; only the first ${MAX_BULK_ROWS} rows will run` : '')
+                : 'Map a full name (or first and last name) and a company or domain'}
+            </p>
+            <Button
+              onClick={() => onStart(upload.fileName, upload.table, mapping)}
+              disabled={disabled || !usable || lookupCount === 0}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Look up {lookupCount} {lookupCount === 1 ? 'person' : 'people'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
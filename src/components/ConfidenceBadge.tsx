@@ -0,0 +1,51 @@
+import { Badge } from './ui/badge'
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card'
+import type { EmailResult } from '../lib/discovery'
+
+interface ConfidenceBadgeProps {
+  result: EmailResult
+}
+
+const formatPoints = (points: number) => (points > 0 ? `+${points}` : `${points}`)
+
+export function ConfidenceBadge({ result }: ConfidenceBadgeProps) {
+  const { base, factors } = result.confidenceBreakdown
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <Badge variant="secondary" className="text-xs cursor-help">
+          {result.confidence}% confidence
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80">
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">How this score was calculated</h4>
+          <div className="space-y-2 text-xs">
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>Base score</span>
+              <span className="font-mono">{base}</span>
+            </div>
+            {factors.map((factor) => (
+              <div key={factor.key} className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium">{factor.label}</p>
+                  <p className="text-muted-foreground">{factor.detail}</p>
+                </div>
+                <span
+                  className={`font-mono ${factor.points > 0 ? 'text-green-600' : factor.points < 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+                >
+                  {formatPoints(factor.points)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between border-t pt-2 text-sm font-semibold">
+            <span>Confidence</span>
+            <span className="font-mono">{result.confidence}%</span>
+          </div>
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
@@ -0,0 +1,91 @@
+import { Copy, FileSearch, User, Building2, Star } from 'lucide-react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { ConfidenceBadge } from './ConfidenceBadge'
+import { DeliverabilityBadge } from './DeliverabilityBadge'
+import { SupportBadge } from './SupportBadge'
+import { ValidationBadge } from './ValidationBadge'
+import { InferenceBadge } from './InferenceBadge'
+import { EmailTypeBadge } from './EmailTypeBadge'
+import type { Contact, EmailResult } from '../lib/discovery'
+
+interface ContactCardProps {
+  contact: Contact
+  onCopy: (email: string) => void
+  onShowEvidence: (result: EmailResult) => void
+}
+
+// One person with every address found for them, the primary one first
+export function ContactCard({ contact, onCopy, onShowEvidence }: ContactCardProps) {
+  return (
+    <div className="border rounded-lg p-4 hover:bg-muted/50 transition-colors space-y-3">
+      <div className="flex items-center space-x-3">
+        <div className="bg-primary/10 rounded-full p-2">
+          <User className="h-4 w-4 text-primary" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold">{contact.name}</h3>
+          <p className="text-sm text-muted-foreground">{contact.title}</p>
+        </div>
+        <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+          <Building2 className="h-3 w-3" />
+          <span>{contact.company}</span>
+        </div>
+      </div>
+
+      <div className="ml-9 space-y-2">
+        {contact.emails.map((result) => {
+          const primary = result.email === contact.primaryEmail
+          return (
+            <div key={result.id} className="flex items-start justify-between gap-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {primary && contact.emails.length > 1 && (
+                  <Badge variant="secondary" className="text-xs">
+                    <Star className="h-3 w-3 mr-1" />
+                    Primary
+                  </Badge>
+                )}
+                <ConfidenceBadge result={result} />
+                <DeliverabilityBadge deliverability={result.deliverability} />
+                {result.support !== 'verbatim' && (
+                  <SupportBadge support={result.support} />
+                )}
+                <ValidationBadge validation={result.validation} />
+                {result.inference && <InferenceBadge inference={result.inference} />}
+                <EmailTypeBadge emailType={result.emailType} />
+                {result.roleAccount && (
+                  <Badge variant="outline" className="text-xs" title="Shared mailbox, not a person">
+                    Role account ({result.roleAccount}@)
+                  </Badge>
+                )}
+                <Badge variant="outline" className="text-xs">
+                  {result.source}
+                </Badge>
+              </div>
+              <div className="flex items-center space-x-2">
+                <code className={`bg-muted px-3 py-1 rounded text-sm font-mono ${primary ? 'font-semibold' : ''}`}>
+                  {result.email}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onCopy(result.email)}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onShowEvidence(result)}
+                  title="View evidence"
+                >
+                  <FileSearch className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { MailQuestion, MailX, Server } from 'lucide-react'
+import { Badge } from './ui/badge'
+import type { DeliverabilityResult } from '../lib/deliverability'
+
+interface DeliverabilityBadgeProps {
+  deliverability?: DeliverabilityResult
+}
+
+// The app's verifier only looks up the domain's mail servers (see
+// deliverabilityVerifier), so a badge says whether the domain takes mail,
+// never whether the mailbox exists. Mailbox-level results can't come up.
+const badgeFor = ({ status, mxHost }: DeliverabilityResult) => {
+  if (status === 'undeliverable') return { label: 'No mail server', icon: MailX, style: '' }
+  if (status !== 'unknown') return null
+  return mxHost
+    ? { label: 'Mail server found', icon: Server, style: 'text-muted-foreground' }
+    : { label: 'Unverified', icon: MailQuestion, style: 'text-muted-foreground' }
+}
+
+export function DeliverabilityBadge({ deliverability }: DeliverabilityBadgeProps) {
+  const badge = deliverability && badgeFor(deliverability)
+  if (!deliverability || !badge) return null
+  const Icon = badge.icon
+
+  return (
+    <Badge
+      variant={deliverability.status === 'undeliverable' ? 'destructive' : 'outline'}
+      className={`text-xs ${badge.style}`}
+      title={deliverability.mxHost ? `${deliverability.detail} (${deliverability.mxHost})` : deliverability.detail}
+    >
+      <Icon className="h-3 w-3 mr-1" />
+      {badge.label}
+    </Badge>
+  )
+}
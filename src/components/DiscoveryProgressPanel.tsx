@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react'
+import { Activity, CheckCircle2, Circle, Loader2, MinusCircle, XCircle } from 'lucide-react'
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Progress } from './ui/progress'
+import {
+  progressPercent,
+  type DiscoveryProgress,
+  type PipelineStage,
+  type QueryStatus,
+  type UrlStatus
+} from '../lib/discovery'
+
+interface DiscoveryProgressPanelProps {
+  progress: DiscoveryProgress
+}
+
+const stageLabels: Record<PipelineStage, string> = {
+  planning: 'Planning search queries',
+  searching: 'Searching and extracting',
+  verifying: 'Verifying and scoring',
+  checking: 'Checking mail servers',
+  done: 'Finished',
+  cancelled: 'Stopped',
+  failed: 'Failed'
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+function StatusIcon({ status }: { status: QueryStatus | UrlStatus }) {
+  switch (status) {
+    case 'pending':
+      return <Circle className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+    case 'running':
+      return <Loader2 className="h-3.5 w-3.5 animate-spin text-primary shrink-0" />
+    case 'ok':
+      return <CheckCircle2 className="h-3.5 w-3.5 text-green-600 shrink-0" />
+    case 'skipped':
+      return <MinusCircle className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+    case 'failed':
+      return <XCircle className="h-3.5 w-3.5 text-destructive shrink-0" />
+  }
+}
+
+export function DiscoveryProgressPanel({ progress }: DiscoveryProgressPanelProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick the elapsed clock while the run is still going
+  useEffect(() => {
+    if (progress.finishedAt) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [progress.finishedAt])
+
+  const elapsed = (progress.finishedAt ?? now) - progress.startedAt
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2 text-base">
+            <Activity className="h-4 w-4" />
+            <span>{stageLabels[progress.stage]}</span>
+          </CardTitle>
+          <div className="flex items-center space-x-3 text-sm text-muted-foreground">
+            <span>{progress.resultCount} found so far</span>
+            <span className="font-mono">{formatElapsed(elapsed)}</span>
+          </div>
+        </div>
+        <Progress value={progressPercent(progress)} className="h-2 mt-2" />
+      </CardHeader>
+      {progress.queries.length > 0 && (
+        <CardContent>
+          <Accordion type="multiple">
+            {progress.queries.map((query) => (
+              <AccordionItem key={query.query} value={query.query}>
+                <AccordionTrigger className="py-2 text-sm hover:no-underline">
+                  <div className="flex items-center space-x-2 text-left">
+                    <StatusIcon status={query.status} />
+                    <span className="line-clamp-1">{query.query}</span>
+                    {query.hitCount !== undefined && (
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {query.hitCount} hits
+                      </Badge>
+                    )}
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  {query.error && (
+                    <p className="text-xs text-destructive mb-2">{query.error}</p>
+                  )}
+                  {query.urls.length > 0 ? (
+                    <ul className="space-y-1.5">
+                      {query.urls.map((url) => (
+                        <li key={url.url} className="flex items-start space-x-2 text-xs">
+                          <StatusIcon status={url.status} />
+                          <div className="min-w-0">
+                            <p className="truncate">{url.url}</p>
+                            {url.detail && <p className="text-muted-foreground">{url.detail}</p>}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No URLs yet</p>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
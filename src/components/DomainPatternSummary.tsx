@@ -0,0 +1,30 @@
+import { AtSign } from 'lucide-react'
+import type { DomainPattern } from '../lib/discovery'
+
+interface DomainPatternSummaryProps {
+  domain: string
+  pattern?: DomainPattern
+}
+
+// The address format found for a company-mode search's domain
+export function DomainPatternSummary({ domain, pattern }: DomainPatternSummaryProps) {
+  return (
+    <div className="flex items-center space-x-2 text-sm border rounded-lg px-3 py-2 bg-muted/40">
+      <AtSign className="h-4 w-4 text-muted-foreground" />
+      {pattern ? (
+        <span>
+          Addresses at <span className="font-mono">{domain}</span> follow{' '}
+          <span className="font-mono font-semibold">{pattern.pattern}</span>
+          <span className="text-muted-foreground">
+            {' '}({pattern.support} of {pattern.total} known {pattern.total === 1 ? 'address' : 'addresses'}
+            {pattern.examples[0] && `, e.g. ${pattern.examples[0].email}`})
+          </span>
+        </span>
+      ) : (
+        <span className="text-muted-foreground">
+          No address format known for <span className="font-mono">{domain}</span> yet
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { Badge } from './ui/badge'
+import type { EmailType } from '../lib/discovery'
+
+interface EmailTypeBadgeProps {
+  // Results saved before classification existed have none
+  emailType?: EmailType
+}
+
+// Corporate addresses are the norm, so only the exceptions get a badge
+export function EmailTypeBadge({ emailType }: EmailTypeBadgeProps) {
+  if (emailType === 'free') {
+    return (
+      <Badge variant="outline" className="text-xs border-amber-500 text-amber-700" title="Personal webmail, not a company domain">
+        Free-mail
+      </Badge>
+    )
+  }
+
+  if (emailType === 'disposable') {
+    return (
+      <Badge variant="destructive" className="text-xs" title="Throwaway inbox that may stop working">
+        Disposable
+      </Badge>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,20 @@
+import { Wand2 } from 'lucide-react'
+import { Badge } from './ui/badge'
+import type { PatternInference } from '../lib/discovery'
+
+interface InferenceBadgeProps {
+  inference: PatternInference
+}
+
+export function InferenceBadge({ inference }: InferenceBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs border-violet-500 text-violet-700"
+      title={`Generated from the ${inference.pattern} format, seen in ${inference.support} of ${inference.total} known addresses at ${inference.domain}`}
+    >
+      <Wand2 className="h-3 w-3 mr-1" />
+      Inferred ({inference.pattern})
+    </Badge>
+  )
+}
@@ -0,0 +1,209 @@
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form'
+import {
+  compilePersona,
+  MAX_COMPANY_SIZE,
+  personaSpecSchema,
+  SENIORITY_LABELS,
+  SENIORITY_LEVELS,
+  splitTerms,
+  type PersonaSpec
+} from '../lib/discovery'
+
+const sizeField = z
+  .string()
+  .trim()
+  .regex(/^\d*$/, 'Whole number of employees')
+  .refine(value => !value || (Number(value) >= 1 && Number(value) <= MAX_COMPANY_SIZE), `Between 1 and ${MAX_COMPANY_SIZE.toLocaleString()}`)
+
+// The form edits lists as comma-separated text; toSpec turns valid values into a spec
+const personaFormSchema = z
+  .object({
+    jobTitles: z.string(),
+    seniority: z.array(z.enum(SENIORITY_LEVELS)),
+    departments: z.string(),
+    industries: z.string(),
+    companyMin: sizeField,
+    companyMax: sizeField,
+    locations: z.string(),
+    technologies: z.string(),
+    exclusions: z.string(),
+    notes: z.string()
+  })
+  .refine(({ companyMin, companyMax }) => !companyMin || !companyMax || Number(companyMin) <= Number(companyMax), {
+    message: 'Must be at least the minimum size',
+    path: ['companyMax']
+  })
+
+type PersonaFormValues = z.infer<typeof personaFormSchema>
+
+const toSpec = (values: PersonaFormValues): PersonaSpec =>
+  personaSpecSchema.parse({
+    jobTitles: splitTerms(values.jobTitles),
+    seniority: values.seniority,
+    departments: splitTerms(values.departments),
+    industries: splitTerms(values.industries),
+    companySize: {
+      min: values.companyMin ? Number(values.companyMin) : undefined,
+      max: values.companyMax ? Number(values.companyMax) : undefined
+    },
+    locations: splitTerms(values.locations),
+    technologies: splitTerms(values.technologies),
+    exclusions: splitTerms(values.exclusions),
+    notes: values.notes
+  })
+
+const toFormValues = (spec: PersonaSpec): PersonaFormValues => ({
+  jobTitles: spec.jobTitles.join(', '),
+  seniority: spec.seniority,
+  departments: spec.departments.join(', '),
+  industries: spec.industries.join(', '),
+  companyMin: spec.companySize.min?.toString() ?? '',
+  companyMax: spec.companySize.max?.toString() ?? '',
+  locations: spec.locations.join(', '),
+  technologies: spec.technologies.join(', '),
+  exclusions: spec.exclusions.join(', '),
+  notes: spec.notes
+})
+
+type ListField = 'jobTitles' | 'departments' | 'industries' | 'locations' | 'technologies' | 'exclusions'
+
+const listFields: Array<{ name: ListField; label: string; placeholder: string }> = [
+  { name: 'jobTitles', label: 'Job titles', placeholder: 'Marketing Manager, Head of Growth' },
+  { name: 'departments', label: 'Departments', placeholder: 'Marketing, Demand Generation' },
+  { name: 'industries', label: 'Industries', placeholder: 'B2B SaaS, Fintech' },
+  { name: 'locations', label: 'Geography', placeholder: 'United States, Berlin' },
+  { name: 'technologies', label: 'Technologies', placeholder: 'HubSpot, Salesforce' },
+  { name: 'exclusions', label: 'Exclude', placeholder: 'Agencies, students, recruiters' }
+]
+
+interface PersonaBuilderProps {
+  // Read once; remount the builder to load a different spec
+  defaultValue: PersonaSpec
+  onChange: (spec: PersonaSpec) => void
+  disabled?: boolean
+}
+
+// Structured alternative to the free-text persona. Reports every valid edit.
+export function PersonaBuilder({ defaultValue, onChange, disabled }: PersonaBuilderProps) {
+  const form = useForm<PersonaFormValues>({
+    resolver: zodResolver(personaFormSchema),
+    defaultValues: toFormValues(defaultValue),
+    mode: 'onChange'
+  })
+
+  useEffect(() => {
+    const subscription = form.watch((values) => {
+      const parsed = personaFormSchema.safeParse(values)
+      if (parsed.success) onChange(toSpec(parsed.data))
+    })
+    return () => subscription.unsubscribe()
+  }, [form, onChange])
+
+  const values = form.watch()
+  const parsed = personaFormSchema.safeParse(values)
+  const preview = parsed.success ? compilePersona(toSpec(parsed.data)) : ''
+
+  return (
+    <Form {...form}>
+      <form onSubmit={(event) => event.preventDefault()} className="space-y-4">
+        <fieldset disabled={disabled} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {listFields.map(({ name, label, placeholder }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={placeholder} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+
+          <FormField
+            control={form.control}
+            name="companyMin"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Company size from (employees)</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" placeholder="50" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="companyMax"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Company size to (employees)</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" placeholder="200" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="seniority"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Seniority</FormLabel>
+                <FormControl>
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    size="sm"
+                    className="flex-wrap justify-start"
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    disabled={disabled}
+                  >
+                    {SENIORITY_LEVELS.map((level) => (
+                      <ToggleGroupItem key={level} value={level} className="text-xs">
+                        {SENIORITY_LABELS[level]}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="notes"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Anything else</FormLabel>
+                <FormControl>
+                  <Textarea placeholder="e.g., focused on B2B lead generation" className="min-h-[60px] resize-none" {...field} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </fieldset>
+
+        <p className="text-sm text-muted-foreground">
+          {preview ? <>Searches for: <span className="text-foreground">{preview}</span></> : 'Fill in at least one field to search.'}
+        </p>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react'
+import { CopyPlus, GitCompare, Link, Play, Trash2 } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Separator } from './ui/separator'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet'
+import { Switch } from './ui/switch'
+import {
+  diffPersonaVersions,
+  findVersion,
+  latestVersion,
+  normalizeTags,
+  shareUrl,
+  type PersonaVersion,
+  type SavedPersona
+} from '../lib/personas'
+
+interface PersonaDetailSheetProps {
+  persona: SavedPersona | null
+  onOpenChange: (open: boolean) => void
+  onUse: (persona: SavedPersona, version: PersonaVersion) => void
+  onUpdate: (personaId: string, changes: { name?: string; tags?: string[] }) => void
+  onDuplicate: (personaId: string, version: number) => void
+  onShareChange: (personaId: string, shared: boolean) => void
+  onCopyLink: (url: string) => void
+  onDelete: (personaId: string) => void
+}
+
+function VersionDiff({ before, after }: { before: PersonaVersion; after: PersonaVersion }) {
+  const { text, fields } = diffPersonaVersions(before, after)
+  const unchanged = text.every(segment => segment.kind === 'same') && fields.length === 0
+
+  if (unchanged) {
+    return <p className="text-sm text-muted-foreground">No differences</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {fields.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {fields.map((change) => (
+            <div key={change.label}>
+              <span className="font-medium">{change.label}: </span>
+              {change.removed.map((value) => (
+                <span key={`-${value}`} className="line-through text-red-700 mr-2">{value}</span>
+              ))}
+              {change.added.map((value) => (
+                <span key={`+${value}`} className="text-green-700 mr-2">{value}</span>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-sm leading-relaxed border rounded-lg p-3 whitespace-pre-wrap">
+        {text.map((segment, index) => (
+          <span
+            key={index}
+            className={
+              segment.kind === 'added'
+                ? 'bg-green-100 text-green-800'
+                : segment.kind === 'removed'
+                  ? 'bg-red-100 text-red-800 line-through'
+                  : ''
+            }
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+    </div>
+  )
+}
+
+export function PersonaDetailSheet({
+  persona,
+  onOpenChange,
+  onUse,
+  onUpdate,
+  onDuplicate,
+  onShareChange,
+  onCopyLink,
+  onDelete
+}: PersonaDetailSheetProps) {
+  const [name, setName] = useState('')
+  const [tagText, setTagText] = useState('')
+  const [compareFrom, setCompareFrom] = useState(0)
+  const [compareTo, setCompareTo] = useState(0)
+
+  // Reset the edit fields and comparison when a different persona opens
+  useEffect(() => {
+    if (!persona) return
+    const latest = latestVersion(persona).version
+    setName(persona.name)
+    setTagText(persona.tags.join(', '))
+    setCompareFrom(Math.max(1, latest - 1))
+    setCompareTo(latest)
+  }, [persona])
+
+  const saveDetails = () => {
+    if (!persona) return
+    const tags = normalizeTags(tagText)
+    if (name.trim() && (name.trim() !== persona.name || tags.join(',') !== persona.tags.join(','))) {
+      onUpdate(persona.id, { name, tags })
+    }
+  }
+
+  const before = persona && findVersion(persona, compareFrom)
+  const after = persona && findVersion(persona, compareTo)
+
+  return (
+    <Sheet open={persona !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {persona && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{persona.name}</SheetTitle>
+              <SheetDescription>
+                {persona.versions.length} {persona.versions.length === 1 ? 'version' : 'versions'} · updated{' '}
+                {new Date(persona.updatedAt).toLocaleDateString()}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-4 mt-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="persona-name">Name</Label>
+                  <Input id="persona-name" value={name} onChange={(e) => setName(e.target.value)} onBlur={saveDetails} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="persona-tags">Tags</Label>
+                  <Input
+                    id="persona-tags"
+                    value={tagText}
+                    onChange={(e) => setTagText(e.target.value)}
+                    onBlur={saveDetails}
+                    placeholder="sales, emea"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="persona-shared"
+                    checked={!!persona.shareId}
+                    onCheckedChange={(checked) => onShareChange(persona.id, checked)}
+                  />
+                  <Label htmlFor="persona-shared" className="text-sm">Share with a link</Label>
+                </div>
+                {persona.shareId && (
+                  <Button variant="outline" size="sm" onClick={() => onCopyLink(shareUrl(persona.shareId!))}>
+                    <Link className="h-4 w-4 mr-2" />
+                    Copy link
+                  </Button>
+                )}
+              </div>
+
+              <Separator />
+
+              <h4 className="text-sm font-semibold">Versions</h4>
+              <ScrollArea className="max-h-[280px] pr-3">
+                <div className="space-y-2">
+                  {[...persona.versions].reverse().map((version) => (
+                    <div key={version.version} className="border rounded-lg p-3 space-y-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center space-x-2">
+                          <Badge variant="outline" className="text-xs">v{version.version}</Badge>
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(version.createdAt).toLocaleString()}
+                          </span>
+                          {version.spec && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Built</Badge>}
+                        </span>
+                        <span className="flex items-center space-x-1">
+                          <Button variant="ghost" size="sm" onClick={() => onUse(persona, version)} title="Search with this version">
+                            <Play className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onDuplicate(persona.id, version.version)}
+                            title="Duplicate as a new persona"
+                          >
+                            <CopyPlus className="h-4 w-4" />
+                          </Button>
+                        </span>
+                      </div>
+                      {version.note && <p className="text-xs italic text-muted-foreground">{version.note}</p>}
+                      <p className="line-clamp-3">{version.text}</p>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              {persona.versions.length > 1 && (
+                <>
+                  <Separator />
+                  <h4 className="flex items-center space-x-2 text-sm font-semibold">
+                    <GitCompare className="h-4 w-4" />
+                    <span>Compare versions</span>
+                  </h4>
+                  <div className="flex items-center space-x-2">
+                    {[
+                      { value: compareFrom, onChange: setCompareFrom },
+                      { value: compareTo, onChange: setCompareTo }
+                    ].map((picker, index) => (
+                      <Select key={index} value={String(picker.value)} onValueChange={(value) => picker.onChange(Number(value))}>
+                        <SelectTrigger className="h-8 w-[100px] text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {persona.versions.map((version) => (
+                            <SelectItem key={version.version} value={String(version.version)}>
+                              v{version.version}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ))}
+                  </div>
+                  {before && after && <VersionDiff before={before} after={after} />}
+                </>
+              )}
+
+              <Separator />
+
+              <Button variant="outline" size="sm" className="text-destructive" onClick={() => onDelete(persona.id)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete persona
+              </Button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
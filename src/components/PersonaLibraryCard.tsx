@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { Library, Loader2, Share2 } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { ScrollArea } from './ui/scroll-area'
+import { latestVersion, type SavedPersona } from '../lib/personas'
+
+interface PersonaLibraryCardProps {
+  personas: SavedPersona[]
+  loading: boolean
+  // The persona currently loaded into the search box
+  activeId?: string
+  onOpen: (persona: SavedPersona) => void
+}
+
+const matches = (persona: SavedPersona, filter: string) => {
+  const needle = filter.trim().toLowerCase()
+  return !needle || persona.name.toLowerCase().includes(needle) || persona.tags.some(tag => tag.includes(needle))
+}
+
+export function PersonaLibraryCard({ personas, loading, activeId, onOpen }: PersonaLibraryCardProps) {
+  const [filter, setFilter] = useState('')
+  const visible = personas.filter(persona => matches(persona, filter))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <Library className="h-4 w-4" />
+          <span>Persona Library</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {personas.length > 5 && (
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by name or tag"
+            className="h-8 text-sm"
+          />
+        )}
+        {visible.length > 0 ? (
+          <ScrollArea className="h-[260px]">
+            <div className="space-y-2">
+              {visible.map((persona) => (
+                <button
+                  key={persona.id}
+                  onClick={() => onOpen(persona)}
+                  className={`w-full text-left p-3 rounded-lg border hover:bg-muted/50 transition-colors ${
+                    persona.id === activeId ? 'border-primary' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-medium truncate">{persona.name}</span>
+                    <span className="flex items-center space-x-1 text-xs text-muted-foreground">
+                      {persona.shareId && <Share2 className="h-3 w-3" />}
+                      <span>v{latestVersion(persona).version}</span>
+                    </span>
+                  </div>
+                  {persona.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {persona.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        ) : loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {personas.length > 0 ? 'No personas match' : 'Save a persona to reuse it later'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
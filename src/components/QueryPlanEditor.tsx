@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, ListChecks, Loader2, Pin, PinOff, Play, Plus, RefreshCw, Star, Trash2 } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Separator } from './ui/separator'
+import { RunEstimateSummary } from './RunEstimateSummary'
+import type { SearchSettings } from '../lib/discovery'
+import {
+  addQuery,
+  moveQuery,
+  removeQuery,
+  runnableQueries,
+  togglePin,
+  updateQuery,
+  type PlannedQuery,
+  type QuerySet
+} from '../lib/queryPlans'
+
+interface QueryPlanEditorProps {
+  plan: PlannedQuery[]
+  onChange: (plan: PlannedQuery[]) => void
+  onRun: () => void
+  onRegenerate: () => void
+  onCancel: () => void
+  regenerating: boolean
+  settings: SearchSettings
+  querySets: QuerySet[]
+  onSaveSet: (name: string) => void
+  onLoadSet: (querySet: QuerySet) => void
+  onDeleteSet: (querySetId: string) => void
+}
+
+export function QueryPlanEditor({
+  plan,
+  onChange,
+  onRun,
+  onRegenerate,
+  onCancel,
+  regenerating,
+  settings,
+  querySets,
+  onSaveSet,
+  onLoadSet,
+  onDeleteSet
+}: QueryPlanEditorProps) {
+  const [setName, setSetName] = useState('')
+  const runCount = runnableQueries(plan).length
+
+  const saveSet = () => {
+    if (!setName.trim()) return
+    onSaveSet(setName.trim())
+    setSetName('')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2 text-base">
+            <ListChecks className="h-4 w-4" />
+            <span>Review Search Queries</span>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onRegenerate} disabled={regenerating}>
+            {regenerating ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Regenerate
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Edit, reorder or pin the queries before searching. Pinned queries are kept when you regenerate.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {plan.map((query, index) => (
+            <div key={query.id} className="flex items-center space-x-2">
+              <span className="w-5 text-right text-xs text-muted-foreground">{index + 1}</span>
+              <Input
+                value={query.text}
+                onChange={(e) => onChange(updateQuery(plan, query.id, e.target.value))}
+                placeholder="Search query"
+                className={query.pinned ? 'border-primary' : ''}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(togglePin(plan, query.id))}
+                title={query.pinned ? 'Unpin' : 'Pin'}
+              >
+                {query.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(moveQuery(plan, query.id, -1))}
+                disabled={index === 0}
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(moveQuery(plan, query.id, 1))}
+                disabled={index === plan.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(removeQuery(plan, query.id))}
+                title="Remove"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => onChange(addQuery(plan))}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add query
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium flex items-center space-x-2">
+            <Star className="h-4 w-4" />
+            <span>Favourite query sets for this persona</span>
+          </h4>
+          {querySets.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {querySets.map((querySet) => (
+                <Badge key={querySet.id} variant="secondary" className="flex items-center space-x-1 pr-1">
+                  <button onClick={() => onLoadSet(querySet)} className="hover:underline">
+                    {querySet.name} ({querySet.queries.length})
+                  </button>
+                  <button
+                    onClick={() => onDeleteSet(querySet.id)}
+                    className="rounded p-0.5 hover:bg-muted"
+                    title="Delete query set"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">No saved query sets yet</p>
+          )}
+          <div className="flex items-center space-x-2">
+            <Input
+              value={setName}
+              onChange={(e) => setSetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveSet()}
+              placeholder="Name this query set"
+              className="h-8"
+            />
+            <Button variant="outline" size="sm" onClick={saveSet} disabled={!setName.trim() || runCount === 0}>
+              Save
+            </Button>
+          </div>
+        </div>
+
+        <RunEstimateSummary settings={settings} queryCount={runCount} />
+
+        <div className="flex items-center justify-end space-x-2">
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={onRun} disabled={runCount === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Run {runCount} {runCount === 1 ? 'query' : 'queries'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,104 @@
+import { ExternalLink, Search } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { Separator } from './ui/separator'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet'
+import { ConfidenceBadge } from './ConfidenceBadge'
+import { DeliverabilityBadge } from './DeliverabilityBadge'
+import { SupportBadge } from './SupportBadge'
+import { ValidationBadge } from './ValidationBadge'
+import { InferenceBadge } from './InferenceBadge'
+import { EmailTypeBadge } from './EmailTypeBadge'
+import type { EmailResult, ExtractionStage } from '../lib/discovery'
+
+interface ResultDetailSheetProps {
+  result: EmailResult | null
+  onOpenChange: (open: boolean) => void
+}
+
+const stageLabels: Record<ExtractionStage, string> = {
+  'search-results': 'Search snippet',
+  'page-content': 'Page content'
+}
+
+export function ResultDetailSheet({ result, onOpenChange }: ResultDetailSheetProps) {
+  return (
+    <Sheet open={result !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg">
+        {result && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="font-mono text-base break-all">{result.email}</SheetTitle>
+              <SheetDescription>
+                {result.name} · {result.title} · {result.company}
+              </SheetDescription>
+              {result.aliases && result.aliases.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Also seen as <span className="font-mono">{result.aliases.join(', ')}</span>
+                </p>
+              )}
+            </SheetHeader>
+            <div className="flex items-center space-x-2 mt-4">
+              <ConfidenceBadge result={result} />
+              <DeliverabilityBadge deliverability={result.deliverability} />
+              <SupportBadge support={result.support} />
+              <ValidationBadge validation={result.validation} />
+              {result.inference && <InferenceBadge inference={result.inference} />}
+              <EmailTypeBadge emailType={result.emailType} />
+              <Badge variant="outline" className="text-xs">
+                {result.source}
+              </Badge>
+            </div>
+            <Separator className="my-4" />
+            <h4 className="text-sm font-semibold mb-3">
+              Evidence ({result.evidence.length} {result.evidence.length === 1 ? 'sighting' : 'sightings'})
+            </h4>
+            <ScrollArea className="h-[calc(100vh-260px)] pr-3">
+              <div className="space-y-3">
+                {result.evidence.map((evidence, index) => (
+                  <div key={index} className="border rounded-lg p-3 space-y-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="secondary" className="text-xs">
+                          {stageLabels[evidence.stage]}
+                        </Badge>
+                        <SupportBadge support={evidence.support} />
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(evidence.extractedAt).toLocaleString()}
+                      </span>
+                    </div>
+                    {evidence.url && (
+                      <a
+                        href={evidence.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center space-x-1 text-primary hover:underline break-all"
+                      >
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                        <span>{evidence.url}</span>
+                      </a>
+                    )}
+                    <div className="flex items-center space-x-1 text-xs text-muted-foreground">
+                      <Search className="h-3 w-3 shrink-0" />
+                      <span>{evidence.query}</span>
+                    </div>
+                    {evidence.snippet ? (
+                      <blockquote className="border-l-2 pl-3 text-xs text-muted-foreground italic">
+                        {evidence.snippet}
+                      </blockquote>
+                    ) : (
+                      <p className="text-xs text-destructive">
+                        The address does not appear verbatim in this source
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
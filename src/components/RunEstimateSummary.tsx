@@ -0,0 +1,28 @@
+import { Gauge } from 'lucide-react'
+import { estimateRun, type SearchSettings } from '../lib/discovery'
+
+interface RunEstimateSummaryProps {
+  settings: SearchSettings
+  // Known up front in plan-first mode; otherwise the planner's maximum is assumed
+  queryCount?: number
+  className?: string
+}
+
+const formatDuration = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`
+
+// One-line projection of API calls, tokens and time for a run
+export function RunEstimateSummary({ settings, queryCount, className }: RunEstimateSummaryProps) {
+  const estimate = estimateRun(settings, queryCount)
+  const calls = estimate.searches + estimate.extractions + estimate.llmCalls
+
+  return (
+    <p className={`flex items-center space-x-1.5 text-xs text-muted-foreground ${className || ''}`}>
+      <Gauge className="h-3.5 w-3.5 shrink-0" />
+      <span>
+        Up to {calls} API calls ({estimate.searches} searches, {estimate.extractions} page fetches,{' '}
+        {estimate.llmCalls} AI calls) · ~{estimate.tokens.toLocaleString()} tokens · ~{formatDuration(estimate.seconds)}
+      </span>
+    </p>
+  )
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react'
+import { Save, X } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { latestVersion, normalizeTags, type SavedPersona } from '../lib/personas'
+
+interface SavePersonaControlProps {
+  // The library persona loaded into the search box, if any
+  persona?: SavedPersona
+  version?: number
+  modified: boolean
+  disabled: boolean
+  onCreate: (name: string, tags: string[]) => void
+  onSaveVersion: (note: string) => void
+  onDetach: () => void
+}
+
+// Saves the current persona to the library, or as a new version of the loaded one
+export function SavePersonaControl({
+  persona,
+  version,
+  modified,
+  disabled,
+  onCreate,
+  onSaveVersion,
+  onDetach
+}: SavePersonaControlProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [tags, setTags] = useState('')
+  const [note, setNote] = useState('')
+
+  const submit = () => {
+    if (persona) {
+      onSaveVersion(note)
+    } else {
+      if (!name.trim()) return
+      onCreate(name.trim(), normalizeTags(tags))
+    }
+    setName('')
+    setTags('')
+    setNote('')
+    setOpen(false)
+  }
+
+  const nextVersion = persona ? latestVersion(persona).version + 1 : 1
+
+  return (
+    <div className="flex items-center space-x-2">
+      {persona && (
+        <Badge variant="outline" className="text-xs">
+          {persona.name} v{version}
+          {modified && <span className="ml-1 text-muted-foreground">(edited)</span>}
+          <button onClick={onDetach} className="ml-1" title="Stop linking searches to this persona">
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      )}
+      {(!persona || modified) && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={disabled}>
+              <Save className="h-4 w-4 mr-2" />
+              {persona ? `Save as v${nextVersion}` : 'Save to library'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 space-y-2">
+            {persona ? (
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submit()}
+                placeholder="What changed? (optional)"
+              />
+            ) : (
+              <>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && submit()}
+                  placeholder="Persona name"
+                />
+                <Input
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && submit()}
+                  placeholder="Tags, comma separated"
+                />
+              </>
+            )}
+            <Button size="sm" className="w-full" onClick={submit} disabled={!persona && !name.trim()}>
+              Save
+            </Button>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  )
+}
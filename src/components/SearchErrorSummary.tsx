@@ -0,0 +1,58 @@
+import { AlertTriangle } from 'lucide-react'
+import { Alert, AlertDescription, AlertTitle } from './ui/alert'
+import { Badge } from './ui/badge'
+import {
+  ERROR_KIND_HINTS,
+  ERROR_KIND_LABELS,
+  describeFailure,
+  summarizeRunErrors,
+  type ErrorKind,
+  type RunError
+} from '../lib/discovery'
+
+interface SearchErrorSummaryProps {
+  // Failures the run recovered from
+  errors: RunError[]
+  // What stopped the run, when it failed outright
+  failure?: { kind: ErrorKind; message: string }
+}
+
+// What went wrong during one search, grouped by kind with what to do about each
+export function SearchErrorSummary({ errors, failure }: SearchErrorSummaryProps) {
+  const entries = summarizeRunErrors(errors)
+  if (!failure && entries.length === 0) return null
+
+  return (
+    <Alert variant={failure ? 'destructive' : 'default'}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {failure
+          ? `Search failed: ${ERROR_KIND_LABELS[failure.kind].toLowerCase()}`
+          : `${errors.length} ${errors.length === 1 ? 'problem' : 'problems'} during this search`}
+      </AlertTitle>
+      <AlertDescription className="space-y-2">
+        {failure && (
+          <p>{describeFailure(failure.kind, failure.message)}</p>
+        )}
+        {entries.length > 0 && (
+          <ul className="space-y-1.5">
+            {entries.map((entry) => (
+              <li key={entry.kind} className="text-xs">
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                    {entry.count}×
+                  </Badge>
+                  <span className="font-medium text-foreground">{ERROR_KIND_LABELS[entry.kind]}</span>
+                  <span className="text-muted-foreground">{ERROR_KIND_HINTS[entry.kind]}</span>
+                </div>
+                <p className="text-muted-foreground truncate pl-9" title={entry.example}>
+                  e.g. {entry.example}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,83 @@
+import { History, Loader2 } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { ScrollArea } from './ui/scroll-area'
+import type { SearchHistoryEntry } from '../lib/history'
+import { describeRef, type SavedPersona } from '../lib/personas'
+
+interface SearchHistoryCardProps {
+  entries: SearchHistoryEntry[]
+  // Used to name the library persona a search ran with
+  personas: SavedPersona[]
+  hasMore: boolean
+  loading: boolean
+  onSelect: (entry: SearchHistoryEntry) => void
+  onLoadMore: () => void
+}
+
+export function SearchHistoryCard({ entries, personas, hasMore, loading, onSelect, onLoadMore }: SearchHistoryCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <History className="h-4 w-4" />
+          <span>Recent Searches</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length > 0 ? (
+          <ScrollArea className="h-[300px]">
+            <div className="space-y-3">
+              {entries.map((search) => (
+                <div key={search.id} className="space-y-2">
+                  <button
+                    onClick={() => onSelect(search)}
+                    className="w-full text-left p-3 rounded-lg border hover:bg-muted/50 transition-colors"
+                  >
+                    <p className="text-sm font-medium line-clamp-2 mb-1">
+                      {search.persona}
+                    </p>
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span className="flex items-center space-x-2">
+                        <span>{search.resultCount} results</span>
+                        {search.personaId && search.personaVersion && (
+                          <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                            {describeRef(personas, { personaId: search.personaId, version: search.personaVersion }) || 'Deleted persona'}
+                          </Badge>
+                        )}
+                        {search.status === 'cancelled' && (
+                          <Badge variant="outline" className="text-[10px] px-1.5 py-0">Cancelled</Badge>
+                        )}
+                        {search.status === 'failed' && (
+                          <Badge variant="destructive" className="text-[10px] px-1.5 py-0" title={search.error}>
+                            Failed
+                          </Badge>
+                        )}
+                      </span>
+                      <span>{new Date(search.createdAt).toLocaleDateString()}</span>
+                    </div>
+                  </button>
+                </div>
+              ))}
+              {hasMore && (
+                <Button variant="ghost" size="sm" className="w-full" onClick={onLoadMore} disabled={loading}>
+                  {loading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Load more
+                </Button>
+              )}
+            </div>
+          </ScrollArea>
+        ) : loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No recent searches
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
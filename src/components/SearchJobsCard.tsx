@@ -0,0 +1,105 @@
+import { ListTodo, Loader2, Pause, Play, Trash2, X } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { ScrollArea } from './ui/scroll-area'
+import {
+  JOB_STATUS_LABELS,
+  canCancelJob,
+  canPauseJob,
+  canResumeJob,
+  isJobFinished,
+  type JobStatus,
+  type SearchJob
+} from '../lib/jobs'
+
+interface SearchJobsCardProps {
+  jobs: SearchJob[]
+  // The job whose results are on screen
+  viewedId?: string
+  onView: (job: SearchJob) => void
+  onPause: (jobId: string) => void
+  onResume: (jobId: string) => void
+  onCancel: (jobId: string) => void
+  onRemove: (jobId: string) => void
+}
+
+const STATUS_VARIANTS: Record<JobStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  queued: 'outline',
+  running: 'default',
+  paused: 'secondary',
+  done: 'outline',
+  failed: 'destructive',
+  cancelled: 'outline'
+}
+
+const describeProgress = (job: SearchJob): string | null => {
+  if (isJobFinished(job) || !job.checkpoint) return null
+  const { completedQueries, queries } = job.checkpoint
+  return `${completedQueries} of ${queries.length} queries`
+}
+
+export function SearchJobsCard({ jobs, viewedId, onView, onPause, onResume, onCancel, onRemove }: SearchJobsCardProps) {
+  if (jobs.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <ListTodo className="h-4 w-4" />
+          <span>Search Jobs</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[300px]">
+          <div className="space-y-2">
+            {jobs.map((job) => {
+              const progress = describeProgress(job)
+              return (
+                <div
+                  key={job.id}
+                  className={`p-3 rounded-lg border space-y-2 ${job.id === viewedId ? 'border-primary' : ''}`}
+                >
+                  <button onClick={() => onView(job)} className="w-full text-left">
+                    <p className="text-sm font-medium line-clamp-2">{job.request.persona}</p>
+                  </button>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span className="flex items-center space-x-2">
+                      <Badge variant={STATUS_VARIANTS[job.status]} className="text-[10px] px-1.5 py-0" title={job.error}>
+                        {job.status === 'running' && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+                        {JOB_STATUS_LABELS[job.status]}
+                      </Badge>
+                      <span>{progress || `${job.results.length} results`}</span>
+                    </span>
+                    <span className="flex items-center">
+                      {canPauseJob(job) && (
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onPause(job.id)} title="Pause">
+                          <Pause className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {canResumeJob(job) && (
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onResume(job.id)} title="Resume">
+                          <Play className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {canCancelJob(job) && (
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onCancel(job.id)} title="Cancel">
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {isJobFinished(job) && (
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onRemove(job.id)} title="Remove">
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react'
+import { Settings2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Separator } from './ui/separator'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet'
+import { RunEstimateSummary } from './RunEstimateSummary'
+import {
+  matchPreset,
+  normalizeRoleAccounts,
+  SEARCH_PRESETS,
+  SEARCH_SETTING_LIMITS,
+  type SearchSettings
+} from '../lib/discovery'
+
+interface SearchSettingsSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: SearchSettings
+  onChange: (settings: Partial<SearchSettings>) => void
+  roleAccounts: string[]
+  onRoleAccountsChange: (roleAccounts: string[]) => void
+}
+
+const fields: Array<{ key: keyof SearchSettings; label: string; hint: string }> = [
+  { key: 'maxQueries', label: 'Search queries', hint: 'How many queries the planner may run' },
+  { key: 'resultsPerSearch', label: 'Results per search', hint: 'Hits requested from each web search' },
+  { key: 'urlsPerQuery', label: 'Pages fetched per query', hint: '0 extracts from search snippets only' },
+  { key: 'maxResults', label: 'Max results', hint: 'Addresses kept after ranking' },
+  { key: 'snippetPromptChars', label: 'Snippet prompt size (chars)', hint: 'Search result text sent to the AI' },
+  { key: 'pagePromptChars', label: 'Page prompt size (chars)', hint: 'Page text sent to the AI' }
+]
+
+export function SearchSettingsSheet({
+  open,
+  onOpenChange,
+  settings,
+  onChange,
+  roleAccounts,
+  onRoleAccountsChange
+}: SearchSettingsSheetProps) {
+  const activePreset = matchPreset(settings)
+  const [roleText, setRoleText] = useState(roleAccounts.join(', '))
+
+  // Pick up the stored list once it loads
+  useEffect(() => {
+    setRoleText(roleAccounts.join(', '))
+  }, [roleAccounts])
+
+  const saveRoleAccounts = () => {
+    const next = normalizeRoleAccounts(roleText.split(/[,\s]+/))
+    if (next.join(',') !== roleAccounts.join(',')) onRoleAccountsChange(next)
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center space-x-2">
+            <Settings2 className="h-4 w-4" />
+            <span>Search Depth &amp; Budget</span>
+          </SheetTitle>
+          <SheetDescription>
+            Deeper searches find more but make more API calls and take longer. Saved to your account.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 mt-4">
+          <div className="grid grid-cols-3 gap-2">
+            {Object.values(SEARCH_PRESETS).map((preset) => (
+              <Button
+                key={preset.id}
+                variant={activePreset === preset.id ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => onChange(preset.settings)}
+                title={preset.description}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {activePreset ? SEARCH_PRESETS[activePreset].description : 'Custom settings'}
+          </p>
+
+          <Separator />
+
+          {fields.map(({ key, label, hint }) => {
+            const { min, max, step } = SEARCH_SETTING_LIMITS[key]
+            return (
+              <div key={key} className="space-y-1">
+                <div className="flex items-center justify-between space-x-4">
+                  <Label htmlFor={`setting-${key}`} className="text-sm">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`setting-${key}`}
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={settings[key]}
+                    onChange={(e) => e.target.value !== '' && onChange({ [key]: Number(e.target.value) })}
+                    className="h-8 w-28 text-right"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">{hint}</p>
+              </div>
+            )
+          })}
+
+          <Separator />
+
+          <div className="space-y-1">
+            <Label htmlFor="role-accounts" className="text-sm">
+              Extra role mailboxes
+            </Label>
+            <Input
+              id="role-accounts"
+              value={roleText}
+              onChange={(e) => setRoleText(e.target.value)}
+              onBlur={saveRoleAccounts}
+              onKeyDown={(e) => e.key === 'Enter' && saveRoleAccounts()}
+              placeholder="bookings, studio, ops"
+              className="h-8"
+            />
+            <p className="text-xs text-muted-foreground">
+              Treated as shared inboxes on top of info@, sales@, support@ and the other built-in names
+            </p>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium">Projected cost per search</h4>
+            <RunEstimateSummary settings={settings} />
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
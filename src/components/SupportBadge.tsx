@@ -0,0 +1,23 @@
+import { Badge } from './ui/badge'
+import type { SupportLevel } from '../lib/discovery'
+
+interface SupportBadgeProps {
+  support: SupportLevel
+}
+
+const supportLabels: Record<SupportLevel, string> = {
+  verbatim: 'Verbatim in source',
+  pattern: 'Inferred from pattern',
+  unsupported: 'Unsupported'
+}
+
+export function SupportBadge({ support }: SupportBadgeProps) {
+  return (
+    <Badge
+      variant={support === 'unsupported' ? 'destructive' : 'outline'}
+      className={`text-xs ${support === 'pattern' ? 'border-amber-500 text-amber-700' : ''}`}
+    >
+      {supportLabels[support]}
+    </Badge>
+  )
+}
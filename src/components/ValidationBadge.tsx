@@ -0,0 +1,30 @@
+import { Badge } from './ui/badge'
+import type { EmailValidation } from '../lib/discovery'
+
+interface ValidationBadgeProps {
+  // Results saved before validation existed have none
+  validation?: EmailValidation
+}
+
+// Only decoded addresses get a badge; plain valid ones need no comment
+export function ValidationBadge({ validation }: ValidationBadgeProps) {
+  if (validation?.status === 'invalid') {
+    return (
+      <Badge variant="destructive" className="text-xs" title={validation.reason}>
+        Invalid address
+      </Badge>
+    )
+  }
+
+  if (validation?.status !== 'deobfuscated') return null
+
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs border-sky-500 text-sky-700"
+      title={validation.original ? `Written as "${validation.original}"` : undefined}
+    >
+      Decoded
+    </Badge>
+  )
+}
@@ -0,0 +1,55 @@
+import { useCallback, useRef, useState } from 'react'
+import {
+  createBulkJob,
+  runBulkLookup,
+  type BulkJob,
+  type BulkLookupOptions,
+  type ColumnMapping,
+  type CsvTable
+} from '../lib/bulk'
+import type { DiscoveryClient } from '../lib/discovery'
+
+// One bulk lookup at a time, with live per-row progress
+export function useBulkLookup(client: DiscoveryClient) {
+  const [job, setJob] = useState<BulkJob | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const start = useCallback(async (
+    fileName: string,
+    table: CsvTable,
+    mapping: ColumnMapping,
+    options: Omit<BulkLookupOptions, 'signal' | 'onRow'> = {}
+  ) => {
+    const created = createBulkJob(fileName, table, mapping)
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setJob(created)
+
+    // Updates from a cleared job must not touch the next one
+    const patch = (change: (current: BulkJob) => BulkJob) =>
+      setJob(prev => (prev && prev.id === created.id ? change(prev) : prev))
+    try {
+      const outcome = await runBulkLookup(client, created.rows, {
+        ...options,
+        signal: controller.signal,
+        onRow: row => patch(current => ({
+          ...current,
+          rows: current.rows.map(entry => (entry.index === row.index ? row : entry))
+        }))
+      })
+      patch(current => ({ ...current, rows: outcome.rows, status: outcome.status, finishedAt: new Date().toISOString() }))
+      return outcome
+    } finally {
+      controllerRef.current = null
+    }
+  }, [client])
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), [])
+
+  const clear = useCallback(() => {
+    controllerRef.current?.abort()
+    setJob(null)
+  }, [])
+
+  return { job, running: job?.status === 'running', start, cancel, clear }
+}
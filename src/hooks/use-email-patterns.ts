@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react'
+import { mergeDomainPatterns, type DomainPattern } from '../lib/discovery'
+import type { PatternStore } from '../lib/patterns'
+
+// Address formats learned for the user's companies, fed back into each search
+export function useEmailPatterns(store: PatternStore, userId: string | undefined) {
+  const [patterns, setPatterns] = useState<DomainPattern[]>([])
+
+  useEffect(() => {
+    setPatterns([])
+    if (!userId) return
+
+    let cancelled = false
+    store.listPatterns(userId)
+      .then(loaded => !cancelled && setPatterns(loaded))
+      .catch(error => console.error('Failed to load email patterns:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [store, userId])
+
+  const save = useCallback(async (learned: DomainPattern[]) => {
+    if (!userId || learned.length === 0) return
+    setPatterns(prev => mergeDomainPatterns(prev, learned))
+    await store.savePatterns(userId, learned)
+  }, [store, userId])
+
+  return { patterns, save }
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  addPersonaVersion,
+  createSavedPersona,
+  duplicatePersona,
+  normalizeTags,
+  type PersonaDraft,
+  type PersonaStore,
+  type SavedPersona
+} from '../lib/personas'
+
+// The user's saved personas, newest first. Mutations return the saved persona.
+export function usePersonaLibrary(store: PersonaStore, userId: string | undefined) {
+  const [personas, setPersonas] = useState<SavedPersona[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setPersonas([])
+    if (!userId) return
+
+    let cancelled = false
+    setLoading(true)
+    store.listPersonas(userId)
+      .then(loaded => !cancelled && setPersonas(loaded))
+      .catch(error => console.error('Failed to load saved personas:', error))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [store, userId])
+
+  const put = useCallback(async (persona: SavedPersona) => {
+    await store.savePersona(persona)
+    setPersonas(prev => [persona, ...prev.filter(entry => entry.id !== persona.id)])
+    return persona
+  }, [store])
+
+  const find = useCallback((personaId: string) => {
+    const persona = personas.find(entry => entry.id === personaId)
+    if (!persona) throw new Error(`Persona ${personaId} is not in the library`)
+    return persona
+  }, [personas])
+
+  const create = useCallback(async (name: string, tags: string[], draft: PersonaDraft) => {
+    if (!userId) throw new Error('Sign in to save personas')
+    return put(createSavedPersona(userId, name, tags, draft))
+  }, [put, userId])
+
+  const addVersion = useCallback(
+    (personaId: string, draft: PersonaDraft, note?: string) => put(addPersonaVersion(find(personaId), draft, note)),
+    [find, put]
+  )
+
+  const update = useCallback(
+    (personaId: string, { name, tags }: { name?: string; tags?: string[] }) => {
+      const persona = find(personaId)
+      return put({
+        ...persona,
+        name: name?.trim() || persona.name,
+        tags: tags ? normalizeTags(tags) : persona.tags,
+        updatedAt: new Date().toISOString()
+      })
+    },
+    [find, put]
+  )
+
+  const duplicate = useCallback(async (personaId: string, version?: number) => {
+    if (!userId) throw new Error('Sign in to save personas')
+    return put(duplicatePersona(find(personaId), userId, { version }))
+  }, [find, put, userId])
+
+  // Sharing is a flag on the persona; the link carries the share id
+  const setShared = useCallback(async (personaId: string, shared: boolean) => {
+    const persona = find(personaId)
+    const shareId = shared ? persona.shareId || `share-${Date.now()}-${Math.random().toString(36).slice(2, 10)}` : undefined
+    return put({ ...persona, shareId })
+  }, [find, put])
+
+  const importShared = useCallback(async (shareId: string) => {
+    if (!userId) throw new Error('Sign in to save personas')
+    const shared = await store.loadSharedPersona(shareId)
+    if (!shared) return null
+    if (shared.userId === userId) return shared
+    return put(duplicatePersona(shared, userId, { name: shared.name }))
+  }, [put, store, userId])
+
+  const remove = useCallback(async (personaId: string) => {
+    if (!userId) return
+    await store.deletePersona(userId, personaId)
+    setPersonas(prev => prev.filter(persona => persona.id !== personaId))
+  }, [store, userId])
+
+  return { personas, loading, create, addVersion, update, duplicate, setShared, importShared, remove }
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react'
+import { personaKey, type PlannedQuery, type QuerySet, type QuerySetStore } from '../lib/queryPlans'
+
+// Favourite query sets saved for the current persona
+export function useQuerySets(store: QuerySetStore, userId: string | undefined, persona: string) {
+  const [querySets, setQuerySets] = useState<QuerySet[]>([])
+  const key = personaKey(persona)
+
+  useEffect(() => {
+    setQuerySets([])
+    if (!userId || !key) return
+
+    let cancelled = false
+    store.listQuerySets(userId, key)
+      .then(sets => !cancelled && setQuerySets(sets))
+      .catch(error => console.error('Failed to load saved query sets:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [store, userId, key])
+
+  const save = useCallback(async (name: string, plan: PlannedQuery[]) => {
+    if (!userId) return
+    const querySet: QuerySet = {
+      id: `query-set-${Date.now()}`,
+      userId,
+      personaKey: key,
+      name,
+      queries: plan.map(({ text, pinned }) => ({ text, pinned })),
+      createdAt: new Date().toISOString()
+    }
+    await store.saveQuerySet(querySet)
+    setQuerySets(prev => [querySet, ...prev])
+  }, [store, userId, key])
+
+  const remove = useCallback(async (querySetId: string) => {
+    if (!userId) return
+    await store.deleteQuerySet(userId, querySetId)
+    setQuerySets(prev => prev.filter(querySet => querySet.id !== querySetId))
+  }, [store, userId])
+
+  return { querySets, save, remove }
+}
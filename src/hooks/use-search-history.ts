@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { EmailResult } from '../lib/discovery'
+import type { HistoryStore, SearchHistoryEntry } from '../lib/history'
+
+const PAGE_SIZE = 10
+
+// Loads a user's search history page by page and keeps it in sync with new saves
+export function useSearchHistory(store: HistoryStore, userId: string | undefined) {
+  const [entries, setEntries] = useState<SearchHistoryEntry[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setEntries([])
+    setHasMore(false)
+    if (!userId) return
+
+    let cancelled = false
+    setLoading(true)
+    store.listSearches(userId, { limit: PAGE_SIZE })
+      .then(page => {
+        if (cancelled) return
+        setEntries(page.entries)
+        setHasMore(page.hasMore)
+      })
+      .catch(error => console.error('Failed to load search history:', error))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [store, userId])
+
+  const loadMore = useCallback(async () => {
+    if (!userId) return
+    setLoading(true)
+    try {
+      const before = entries[entries.length - 1]?.createdAt
+      const page = await store.listSearches(userId, { limit: PAGE_SIZE, before })
+      setEntries(prev => [...prev, ...page.entries])
+      setHasMore(page.hasMore)
+    } finally {
+      setLoading(false)
+    }
+  }, [store, userId, entries])
+
+  const save = useCallback(async (entry: SearchHistoryEntry, results: EmailResult[]) => {
+    await store.saveSearch(entry, results)
+    setEntries(prev => [entry, ...prev])
+  }, [store])
+
+  const loadResults = useCallback((searchId: string) => {
+    if (!userId) return Promise.resolve([])
+    return store.loadResults(userId, searchId)
+  }, [store, userId])
+
+  return { entries, hasMore, loading, loadMore, save, loadResults }
+}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { errorKind, type DiscoveryClient, type DiscoveryEvent, type SearchSettings } from '../lib/discovery'
+import {
+  canCancelJob,
+  canPauseJob,
+  canResumeJob,
+  createSearchJob,
+  isJobFinished,
+  nextQueuedJob,
+  recoverJobs,
+  requestNotificationPermission,
+  runSearchJob,
+  updateJob,
+  type JobRunOptions,
+  type JobStore,
+  type SearchJob,
+  type SearchJobOutcome,
+  type SearchRequest
+} from '../lib/jobs'
+
+interface SearchJobHandlers {
+  // Read when each job starts, so it runs with the latest patterns and verifier
+  runOptions: () => Omit<JobRunOptions, 'signal' | 'onProgress' | 'onCheckpoint'>
+  onProgress?: (job: SearchJob, event: DiscoveryEvent) => void
+  // Called when a run ends: done, paused, cancelled or failed (no outcome)
+  onFinished?: (job: SearchJob, outcome?: SearchJobOutcome) => void
+  // Stored jobs couldn't be read; new searches still run
+  onLoadFailed?: (error: unknown) => void
+}
+
+interface RunningJob {
+  id: string
+  controller: AbortController
+  // What an abort means for this run; a cancelled outcome with none was interrupted
+  stopAs?: 'paused' | 'cancelled'
+}
+
+// Persisted search jobs, run one at a time in submission order. Every run
+// saves a checkpoint after each query, so paused and interrupted jobs pick up
+// where they stopped.
+export function useSearchJobs(
+  store: JobStore,
+  client: DiscoveryClient,
+  userId: string | undefined,
+  handlers: SearchJobHandlers
+) {
+  const [jobs, setJobs] = useState<SearchJob[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const runningRef = useRef<RunningJob | null>(null)
+  const handlersRef = useRef(handlers)
+
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  // Replaces the job in memory and writes it through to the store
+  const persist = useCallback((job: SearchJob) => {
+    setJobs(prev => prev.map(entry => (entry.id === job.id ? job : entry)))
+    store.saveJob(job).catch(error => console.error('Failed to save search job:', error))
+  }, [store])
+
+  useEffect(() => {
+    setJobs([])
+    setLoaded(false)
+    if (!userId) return
+
+    let cancelled = false
+    store.listJobs(userId)
+      .then(stored => {
+        if (cancelled) return
+        const recovered = recoverJobs(stored)
+        recovered.filter((job, index) => job !== stored[index]).forEach(job => {
+          store.saveJob(job).catch(error => console.error('Failed to requeue search job:', error))
+        })
+        setJobs(recovered)
+        setLoaded(true)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error('Failed to load search jobs:', error)
+        // Without the stored jobs there's nothing to resume, but the queue
+        // still has to run what the user submits from here on
+        setLoaded(true)
+        handlersRef.current.onLoadFailed?.(error)
+      })
+
+    return () => {
+      cancelled = true
+      // Signing out pauses the run rather than losing it
+      const running = runningRef.current
+      if (running) {
+        running.stopAs = 'paused'
+        running.controller.abort()
+      }
+    }
+  }, [store, userId])
+
+  const runJob = useCallback(async (job: SearchJob) => {
+    const controller = new AbortController()
+    const running: RunningJob = { id: job.id, controller }
+    runningRef.current = running
+    let current = updateJob(job, { status: 'running', errors: undefined, error: undefined, errorKind: undefined, finishedAt: undefined })
+    persist(current)
+
+    try {
+      const outcome = await runSearchJob(client, current, {
+        ...handlersRef.current.runOptions(),
+        signal: controller.signal,
+        onProgress: event => {
+          // Interim results are kept in memory and saved with the next checkpoint
+          if (event.type === 'results') {
+            current = { ...current, results: event.results }
+            const latest = current
+            setJobs(prev => prev.map(entry => (entry.id === latest.id ? latest : entry)))
+          }
+          handlersRef.current.onProgress?.(current, event)
+        },
+        onCheckpoint: checkpoint => {
+          current = updateJob(current, { checkpoint })
+          persist(current)
+        }
+      })
+
+      const status = outcome.status === 'completed' ? 'done' : running.stopAs || 'cancelled'
+      current = updateJob(current, {
+        status,
+        results: outcome.results,
+        pattern: outcome.pattern,
+        errors: outcome.errors,
+        // Only a paused job needs its checkpoint again
+        checkpoint: status === 'paused' ? current.checkpoint : undefined,
+        finishedAt: status === 'paused' ? undefined : new Date().toISOString()
+      })
+      runningRef.current = null
+      persist(current)
+      handlersRef.current.onFinished?.(current, outcome)
+    } catch (error) {
+      console.error('Search job failed:', error)
+      current = updateJob(current, {
+        status: 'failed',
+        // Whatever the run recovered from before it failed
+        errors: current.checkpoint?.errors,
+        error: error instanceof Error ? error.message : String(error),
+        errorKind: errorKind(error),
+        finishedAt: new Date().toISOString()
+      })
+      runningRef.current = null
+      persist(current)
+      handlersRef.current.onFinished?.(current)
+    }
+  }, [client, persist])
+
+  // Starts the oldest queued job whenever nothing is running
+  useEffect(() => {
+    if (!loaded || runningRef.current) return
+    const next = nextQueuedJob(jobs)
+    if (next) runJob(next)
+  }, [jobs, loaded, runJob])
+
+  const submit = useCallback((request: SearchRequest, settings: SearchSettings, queries?: string[]) => {
+    if (!userId) return null
+    requestNotificationPermission()
+    const job = createSearchJob(userId, request, settings, queries)
+    setJobs(prev => [job, ...prev])
+    store.saveJob(job).catch(error => console.error('Failed to save search job:', error))
+    return job
+  }, [store, userId])
+
+  // True when the job was the one running; the run itself records the new status
+  const stopRunning = useCallback((jobId: string, stopAs: RunningJob['stopAs']): boolean => {
+    const running = runningRef.current
+    if (!running || running.id !== jobId) return false
+    running.stopAs = stopAs
+    running.controller.abort()
+    return true
+  }, [])
+
+  const pause = useCallback((jobId: string) => {
+    const job = jobs.find(entry => entry.id === jobId)
+    if (!job || !canPauseJob(job) || stopRunning(jobId, 'paused')) return
+    persist(updateJob(job, { status: 'paused' }))
+  }, [jobs, persist, stopRunning])
+
+  const resume = useCallback((jobId: string) => {
+    const job = jobs.find(entry => entry.id === jobId)
+    if (!job || !canResumeJob(job)) return
+    persist(updateJob(job, { status: 'queued', error: undefined, errorKind: undefined, finishedAt: undefined }))
+  }, [jobs, persist])
+
+  const cancel = useCallback((jobId: string) => {
+    const job = jobs.find(entry => entry.id === jobId)
+    if (!job || !canCancelJob(job) || stopRunning(jobId, 'cancelled')) return
+    persist(updateJob(job, { status: 'cancelled', checkpoint: undefined, finishedAt: new Date().toISOString() }))
+  }, [jobs, persist, stopRunning])
+
+  const remove = useCallback(async (jobId: string) => {
+    const job = jobs.find(entry => entry.id === jobId)
+    if (!userId || !job || !isJobFinished(job)) return
+    await store.deleteJob(userId, jobId)
+    setJobs(prev => prev.filter(entry => entry.id !== jobId))
+  }, [jobs, store, userId])
+
+  const running = jobs.find(job => job.status === 'running')
+
+  return { jobs, running, submit, pause, resume, cancel, remove }
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  DEFAULT_SEARCH_SETTINGS,
+  normalizeRoleAccounts,
+  normalizeSearchSettings,
+  type SearchSettings
+} from '../lib/discovery'
+import type { SettingsStore } from '../lib/settings'
+
+// The user's search depth, budget and role list, loaded once and saved on every change
+export function useSearchSettings(store: SettingsStore, userId: string | undefined) {
+  const [settings, setSettings] = useState<SearchSettings>(DEFAULT_SEARCH_SETTINGS)
+  const [roleAccounts, setRoleAccounts] = useState<string[]>([])
+
+  useEffect(() => {
+    setSettings(DEFAULT_SEARCH_SETTINGS)
+    setRoleAccounts([])
+    if (!userId) return
+
+    let cancelled = false
+    store.loadSettings(userId)
+      .then(stored => {
+        if (cancelled || !stored) return
+        setSettings(stored.search)
+        setRoleAccounts(stored.roleAccounts)
+      })
+      .catch(error => console.error('Failed to load search settings:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [store, userId])
+
+  const persist = useCallback(async (search: SearchSettings, roles: string[]) => {
+    if (!userId) return
+    await store.saveSettings({ userId, search, roleAccounts: roles, updatedAt: new Date().toISOString() })
+  }, [store, userId])
+
+  const update = useCallback(async (next: Partial<SearchSettings>) => {
+    const merged = normalizeSearchSettings({ ...settings, ...next })
+    setSettings(merged)
+    await persist(merged, roleAccounts)
+  }, [persist, settings, roleAccounts])
+
+  const updateRoleAccounts = useCallback(async (next: string[]) => {
+    const normalized = normalizeRoleAccounts(next)
+    setRoleAccounts(normalized)
+    await persist(settings, normalized)
+  }, [persist, settings])
+
+  return { settings, roleAccounts, update, updateRoleAccounts }
+}
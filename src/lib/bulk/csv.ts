@@ -0,0 +1,85 @@
+import { csvField } from '../export'
+import type { BulkRow, CsvTable } from './types'
+
+// RFC 4180 parsing: quoted fields may hold commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+// First row is the header; null when there's no data under it
+export const parseCsvTable = (text: string): CsvTable | null => {
+  const [headerRow, ...dataRows] = parseCsv(text)
+  if (!headerRow || dataRows.length === 0) return null
+
+  const headers = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`)
+  const rows = dataRows.map(cells => headers.map((_, index) => cells[index] ?? ''))
+  return { headers, rows }
+}
+
+export const ENRICHED_HEADERS = ['Email', 'Confidence', 'Source', 'Lookup Status']
+
+const STATUS_LABELS: Record<BulkRow['status'], string> = {
+  pending: 'Not run',
+  running: 'Not run',
+  found: 'Found',
+  'not-found': 'Not found',
+  skipped: 'Missing name or company',
+  failed: 'Failed'
+}
+
+// The uploaded sheet with the lookup's answer appended to every row
+export const buildEnrichedCsv = (table: CsvTable, rows: BulkRow[]): string => {
+  const byIndex = new Map(rows.map(row => [row.index, row]))
+  return [
+    [...table.headers, ...ENRICHED_HEADERS].map(csvField).join(','),
+    ...table.rows.map((cells, index) => {
+      const row = byIndex.get(index)
+      const result = row?.result
+      const enriched = [
+        result?.email || '',
+        result ? result.confidence : '',
+        result?.source || '',
+        row ? STATUS_LABELS[row.status] : ''
+      ]
+      return [...cells, ...enriched].map(csvField).join(',')
+    })
+  ].join('\r\n')
+}
@@ -0,0 +1,4 @@
+export * from './types'
+export * from './csv'
+export * from './mapping'
+export * from './job'
@@ -0,0 +1,137 @@
+import {
+  bestAddress,
+  isAbortError,
+  isFatalError,
+  mergeDomainPatterns,
+  normalizeSearchSettings,
+  runPersonLookup,
+  type DiscoveryClient,
+  type DiscoveryOptions,
+  type DomainPattern,
+  type PersonLookup
+} from '../discovery'
+import type { BulkJob, BulkRow, ColumnMapping, CsvTable } from './types'
+import { tableLookups } from './mapping'
+
+// Keeps one upload from turning into an unbounded number of searches
+export const MAX_BULK_ROWS = 500
+
+export interface BulkLookupOptions extends Omit<DiscoveryOptions, 'queries' | 'onProgress'> {
+  // Called after every row changes state
+  onRow?: (row: BulkRow) => void
+}
+
+export interface BulkLookupOutcome {
+  rows: BulkRow[]
+  status: 'completed' | 'cancelled'
+  // Address formats learned across the whole run
+  patterns: DomainPattern[]
+  // Why the run stopped early, when a quota or session ran out
+  stoppedBy?: string
+}
+
+export const createBulkJob = (fileName: string, table: CsvTable, mapping: ColumnMapping): BulkJob => ({
+  id: `bulk-${Date.now()}`,
+  fileName,
+  table,
+  mapping,
+  rows: tableLookups(table, mapping).slice(0, MAX_BULK_ROWS).map((lookup, index) => ({
+    index,
+    lookup,
+    status: lookup ? 'pending' : 'skipped'
+  })),
+  status: 'running',
+  startedAt: new Date().toISOString()
+})
+
+export interface BulkSummary {
+  // Rows with enough to search on
+  total: number
+  done: number
+  found: number
+  notFound: number
+  failed: number
+  skipped: number
+}
+
+export const summarizeBulkRows = (rows: BulkRow[]): BulkSummary => {
+  const count = (status: BulkRow['status']) => rows.filter(row => row.status === status).length
+  const [found, notFound, failed, skipped] = [count('found'), count('not-found'), count('failed'), count('skipped')]
+  return { total: rows.length - skipped, done: found + notFound + failed, found, notFound, failed, skipped }
+}
+
+const lookupKey = ({ name, company, domain }: PersonLookup) =>
+  `${name.toLowerCase()}|${(domain || company).toLowerCase()}`
+
+// Looks up each pending row in turn; the client's scheduler paces the calls.
+// Formats learned from one row feed the next, so colleagues on the same
+// sheet get inferred addresses without their own pages. A failed row is
+// recorded and the run moves on; cancelling, a used-up quota or an expired
+// session leaves the remaining rows pending.
+export const runBulkLookup = async (
+  client: DiscoveryClient,
+  rows: BulkRow[],
+  options: BulkLookupOptions = {}
+): Promise<BulkLookupOutcome> => {
+  const settings = normalizeSearchSettings(options.settings)
+  const { signal, onRow } = options
+  const updated = [...rows]
+  // Duplicate attendees reuse the first answer instead of searching again
+  const answered = new Map<string, BulkRow>()
+  let patterns: DomainPattern[] = []
+  let stoppedBy: string | undefined
+
+  const update = (position: number, row: BulkRow) => {
+    updated[position] = row
+    onRow?.(row)
+  }
+
+  for (let position = 0; position < updated.length; position++) {
+    const row = updated[position]
+    if (row.status !== 'pending' || !row.lookup) continue
+    if (signal?.aborted) break
+
+    const previous = answered.get(lookupKey(row.lookup))
+    if (previous) {
+      update(position, { ...row, status: previous.status, result: previous.result, error: previous.error })
+      continue
+    }
+
+    try {
+      update(position, { ...row, status: 'running' })
+
+      const outcome = await runPersonLookup(client, row.lookup, {
+        ...options,
+        settings,
+        patterns: mergeDomainPatterns(options.patterns || [], patterns)
+      })
+      patterns = mergeDomainPatterns(patterns, outcome.patterns)
+      if (outcome.status === 'cancelled') {
+        update(position, row)
+        break
+      }
+
+      const deliverable = outcome.results.filter(result => result.deliverability?.status !== 'undeliverable')
+      const result = bestAddress(deliverable)
+      const done: BulkRow = { ...row, status: result ? 'found' : 'not-found', result }
+      answered.set(lookupKey(row.lookup), done)
+      update(position, done)
+    } catch (error) {
+      if (isAbortError(error)) {
+        update(position, row)
+        break
+      }
+      console.log('Bulk lookup failed for row', row.index, error)
+      const message = error instanceof Error ? error.message : String(error)
+      // Every later row would fail the same way
+      if (isFatalError(error)) {
+        update(position, row)
+        stoppedBy = message
+        break
+      }
+      update(position, { ...row, status: 'failed', error: message })
+    }
+  }
+
+  return { rows: updated, status: signal?.aborted || stoppedBy ? 'cancelled' : 'completed', patterns, stoppedBy }
+}
@@ -0,0 +1,59 @@
+import { parseDomain, parsePersonLookup, type PersonLookup } from '../discovery'
+import type { BulkField, ColumnMapping, CsvTable } from './types'
+
+export const BULK_FIELDS: BulkField[] = ['name', 'first', 'last', 'company', 'domain', 'title']
+
+export const BULK_FIELD_LABELS: Record<BulkField, string> = {
+  name: 'Full name',
+  first: 'First name',
+  last: 'Last name',
+  company: 'Company',
+  domain: 'Domain / website',
+  title: 'Title'
+}
+
+// Header spellings seen in event and CRM exports, compared without punctuation
+const HEADER_ALIASES: Record<BulkField, string[]> = {
+  name: ['name', 'fullname', 'contact', 'contactname', 'attendee', 'attendeename'],
+  first: ['first', 'firstname', 'givenname', 'forename'],
+  last: ['last', 'lastname', 'surname', 'familyname'],
+  company: ['company', 'companyname', 'organization', 'organisation', 'org', 'employer', 'account', 'accountname'],
+  domain: ['domain', 'website', 'companydomain', 'companywebsite', 'url', 'web'],
+  title: ['title', 'jobtitle', 'position', 'role']
+}
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '')
+
+// Best guess from the header row; the user can correct it before running
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {}
+  BULK_FIELDS.forEach(field => {
+    const index = headers.findIndex((header, column) =>
+      HEADER_ALIASES[field].includes(headerKey(header)) && !Object.values(mapping).includes(column)
+    )
+    if (index >= 0) mapping[field] = index
+  })
+  return mapping
+}
+
+// A run needs a name (whole or split) and somewhere to look
+export const isMappingUsable = (mapping: ColumnMapping): boolean =>
+  (mapping.name !== undefined || (mapping.first !== undefined && mapping.last !== undefined)) &&
+  (mapping.company !== undefined || mapping.domain !== undefined)
+
+const cell = (cells: string[], index: number | undefined) => (index === undefined ? '' : (cells[index] || '').trim())
+
+// Null when the row doesn't name a person and a company or domain
+export const rowLookup = (cells: string[], mapping: ColumnMapping): PersonLookup | null => {
+  const name = cell(cells, mapping.name) || `${cell(cells, mapping.first)} ${cell(cells, mapping.last)}`.trim()
+  const company = cell(cells, mapping.company)
+  // Placeholders like "n/a" in the domain column fall back to the company name
+  const domain = parseDomain(cell(cells, mapping.domain))
+
+  const lookup = parsePersonLookup(name, domain || company, cell(cells, mapping.title))
+  // A domain column only gives the company's first label, so keep the sheet's own name
+  return lookup && company && domain ? { ...lookup, company } : lookup
+}
+
+export const tableLookups = (table: CsvTable, mapping: ColumnMapping): Array<PersonLookup | null> =>
+  table.rows.map(cells => rowLookup(cells, mapping))
@@ -0,0 +1,38 @@
+import type { EmailResult, PersonLookup } from '../discovery'
+
+// A parsed spreadsheet; every row is padded to the header's length
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// The columns a bulk lookup can read from
+export type BulkField = 'name' | 'first' | 'last' | 'company' | 'domain' | 'title'
+
+// Column index for each field the sheet has
+export type ColumnMapping = Partial<Record<BulkField, number>>
+
+export type BulkRowStatus = 'pending' | 'running' | 'found' | 'not-found' | 'skipped' | 'failed'
+
+export interface BulkRow {
+  // Position in the uploaded sheet
+  index: number
+  // Null when the row lacks a full name or a company/domain
+  lookup: PersonLookup | null
+  status: BulkRowStatus
+  result?: EmailResult
+  error?: string
+}
+
+export type BulkJobStatus = 'running' | 'completed' | 'cancelled'
+
+export interface BulkJob {
+  id: string
+  fileName: string
+  table: CsvTable
+  mapping: ColumnMapping
+  rows: BulkRow[]
+  status: BulkJobStatus
+  startedAt: string
+  finishedAt?: string
+}
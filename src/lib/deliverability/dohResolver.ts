@@ -0,0 +1,56 @@
+import { abortable } from '../discovery/abort'
+import type { MxRecord, MxResolver } from './types'
+
+const DEFAULT_ENDPOINT = 'https://cloudflare-dns.com/dns-query'
+const MX_TYPE = 15
+const A_TYPE = 1
+const NXDOMAIN = 3
+
+interface DnsJsonAnswer {
+  type: number
+  data: string
+}
+
+interface DnsJsonResponse {
+  Status: number
+  Answer?: DnsJsonAnswer[]
+}
+
+// "10 mx1.acme.com." -> { priority: 10, exchange: 'mx1.acme.com' }
+const parseMx = (data: string): MxRecord | null => {
+  const [priority, exchange] = data.trim().split(/\s+/)
+  const value = Number(priority)
+  if (!Number.isFinite(value) || exchange === undefined) return null
+  return { priority: value, exchange: exchange.replace(/\.$/, '').toLowerCase() }
+}
+
+// Resolves MX records over DNS-over-HTTPS (JSON API), which works from the
+// browser. Falls back to the domain's A record as an implicit MX (RFC 5321).
+export const createDnsOverHttpsResolver = (
+  endpoint: string = DEFAULT_ENDPOINT,
+  fetchImpl: typeof fetch = (...args) => fetch(...args)
+): MxResolver => {
+  const query = async (name: string, type: number, signal?: AbortSignal): Promise<DnsJsonResponse> => {
+    const url = `${endpoint}?name=${encodeURIComponent(name)}&type=${type}`
+    const response = await abortable(fetchImpl(url, { headers: { accept: 'application/dns-json' }, signal }), signal)
+    if (!response.ok) throw new Error(`DNS lookup failed with HTTP ${response.status}`)
+    return response.json()
+  }
+
+  return {
+    resolveMx: async (domain, signal) => {
+      const mx = await query(domain, MX_TYPE, signal)
+      if (mx.Status === NXDOMAIN) return []
+
+      const records = (mx.Answer || [])
+        .filter(answer => answer.type === MX_TYPE)
+        .map(answer => parseMx(answer.data))
+        .filter((record): record is MxRecord => record !== null)
+      if (records.length > 0) return records
+
+      const a = await query(domain, A_TYPE, signal)
+      const hasAddress = (a.Answer || []).some(answer => answer.type === A_TYPE)
+      return hasAddress ? [{ exchange: domain, priority: 0 }] : []
+    }
+  }
+}
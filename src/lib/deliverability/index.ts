@@ -0,0 +1,4 @@
+export * from './types'
+export { createDeliverabilityVerifier } from './verifier'
+export { createDnsOverHttpsResolver } from './dohResolver'
+export { createMemoryMxResolver, createMemorySmtpTransport, type MemorySmtpOptions } from './memory'
@@ -0,0 +1,63 @@
+import { createAbortError } from '../discovery/abort'
+import type { MxRecord, MxResolver, SmtpReply, SmtpSession, SmtpTransport } from './types'
+
+// Fixed MX table, for running the verifier without a network
+export const createMemoryMxResolver = (records: Record<string, MxRecord[]>): MxResolver => ({
+  resolveMx: async (domain, signal) => {
+    if (signal?.aborted) throw createAbortError()
+    return records[domain.toLowerCase()] || []
+  }
+})
+
+export interface MemorySmtpOptions {
+  // Addresses that exist
+  mailboxes: string[]
+  // Domains whose servers accept any recipient
+  catchAllDomains?: string[]
+  // Hosts that refuse connections
+  unreachableHosts?: string[]
+  // Domains that answer RCPT with a temporary 450, like greylisting servers
+  greylistedDomains?: string[]
+}
+
+const reply = (code: number, message: string): SmtpReply => ({ code, message })
+
+// Speaks just enough SMTP to answer a RCPT probe
+export const createMemorySmtpTransport = ({
+  mailboxes,
+  catchAllDomains = [],
+  unreachableHosts = [],
+  greylistedDomains = []
+}: MemorySmtpOptions): SmtpTransport => ({
+  connect: async (host, signal) => {
+    if (signal?.aborted) throw createAbortError()
+    if (unreachableHosts.includes(host)) throw new Error(`Connection to ${host} refused`)
+
+    const session: SmtpSession = {
+      greeting: reply(220, `${host} ESMTP ready`),
+      send: async (command) => {
+        const [verb] = command.split(/[\s:]/)
+        switch (verb.toUpperCase()) {
+          case 'EHLO':
+          case 'HELO':
+            return reply(250, host)
+          case 'MAIL':
+            return reply(250, 'OK')
+          case 'RCPT': {
+            const recipient = (command.match(/<([^>]*)>/)?.[1] || '').toLowerCase()
+            const domain = recipient.slice(recipient.lastIndexOf('@') + 1)
+            if (greylistedDomains.includes(domain)) return reply(450, 'Greylisted, try again later')
+            if (catchAllDomains.includes(domain) || mailboxes.includes(recipient)) return reply(250, 'OK')
+            return reply(550, 'No such user')
+          }
+          case 'QUIT':
+            return reply(221, 'Bye')
+          default:
+            return reply(502, 'Command not implemented')
+        }
+      },
+      close: async () => {}
+    }
+    return session
+  }
+})
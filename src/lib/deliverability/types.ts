@@ -0,0 +1,56 @@
+// deliverable: the mailbox server accepted the recipient
+// undeliverable: no mail server, or the server rejected the recipient
+// catch-all: the server accepts any address, so acceptance proves nothing
+// unknown: the check couldn't finish (timeouts, greylisting, no SMTP transport)
+export type DeliverabilityStatus = 'deliverable' | 'undeliverable' | 'catch-all' | 'unknown'
+
+export interface DeliverabilityResult {
+  status: DeliverabilityStatus
+  // Human-readable explanation for the badge
+  detail: string
+  mxHost?: string
+  // Reply code to RCPT TO, when the probe got that far
+  smtpCode?: number
+  checkedAt: string
+}
+
+export interface MxRecord {
+  exchange: string
+  priority: number
+}
+
+export interface MxResolver {
+  // Empty when the domain has no mail servers; throws when the lookup itself fails
+  resolveMx(domain: string, signal?: AbortSignal): Promise<MxRecord[]>
+}
+
+export interface SmtpReply {
+  code: number
+  message: string
+}
+
+export interface SmtpSession {
+  greeting: SmtpReply
+  // Sends one command line (without CRLF) and resolves with the server's reply
+  send(command: string): Promise<SmtpReply>
+  close(): Promise<void>
+}
+
+export interface SmtpTransport {
+  connect(host: string, signal?: AbortSignal): Promise<SmtpSession>
+}
+
+export interface DeliverabilityVerifier {
+  // Never throws except on abort; failures come back as "unknown"
+  verify(email: string, signal?: AbortSignal): Promise<DeliverabilityResult>
+}
+
+export interface DeliverabilityVerifierOptions {
+  resolver: MxResolver
+  // Without a transport only the MX lookup runs
+  transport?: SmtpTransport
+  // Envelope sender for the probe; nothing is ever sent
+  fromAddress?: string
+  heloName?: string
+  timeoutMs?: number
+}
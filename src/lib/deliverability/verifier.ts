@@ -0,0 +1,157 @@
+import { abortable, isAbortError, throwIfAborted } from '../discovery/abort'
+import type {
+  DeliverabilityResult,
+  DeliverabilityStatus,
+  DeliverabilityVerifier,
+  DeliverabilityVerifierOptions,
+  MxRecord,
+  SmtpSession
+} from './types'
+
+const DEFAULT_FROM = 'verify@persona-email-finder.app'
+const DEFAULT_HELO = 'persona-email-finder.app'
+const DEFAULT_TIMEOUT_MS = 10000
+// Backup MX hosts usually share the primary's answer; one retry is enough
+const MAX_MX_HOSTS = 2
+
+const result = (
+  status: DeliverabilityStatus,
+  detail: string,
+  extra: Partial<DeliverabilityResult> = {}
+): DeliverabilityResult => ({ status, detail, checkedAt: new Date().toISOString(), ...extra })
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number, signal?: AbortSignal): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms / 1000}s`)), ms)
+  })
+  const raced = Promise.race([promise, timeout])
+  // abortable stops listening once aborted; keep a late rejection from going unhandled
+  raced.catch(() => undefined)
+  return abortable(raced, signal).finally(() => clearTimeout(timer))
+}
+
+const isPositive = (code: number) => code >= 200 && code < 300
+
+// An address at the domain that almost certainly doesn't exist
+const probeAddress = (domain: string) =>
+  `no-such-user-${Math.random().toString(36).slice(2, 10)}@${domain}`
+
+// Checks whether an address would be accepted without sending anything:
+// MX lookup, then EHLO / MAIL FROM / RCPT TO and QUIT before DATA. A second
+// RCPT for a made-up address tells catch-all servers apart.
+export const createDeliverabilityVerifier = ({
+  resolver,
+  transport,
+  fromAddress = DEFAULT_FROM,
+  heloName = DEFAULT_HELO,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+}: DeliverabilityVerifierOptions): DeliverabilityVerifier => {
+  // Results for several people at one company share the lookups
+  const mxCache = new Map<string, Promise<MxRecord[]>>()
+  const catchAllCache = new Map<string, boolean>()
+
+  // The cached lookup is shared by every run, so it only stops on its own
+  // timeout; each caller's signal just stops that caller waiting for it
+  const lookupMx = (domain: string, signal?: AbortSignal): Promise<MxRecord[]> => {
+    let records = mxCache.get(domain)
+    if (!records) {
+      records = withTimeout(resolver.resolveMx(domain), timeoutMs)
+      mxCache.set(domain, records)
+      records.catch(() => mxCache.delete(domain))
+    }
+    return abortable(records, signal)
+  }
+
+  const probe = async (
+    session: SmtpSession,
+    email: string,
+    domain: string,
+    mxHost: string,
+    signal?: AbortSignal
+  ): Promise<DeliverabilityResult> => {
+    const send = (command: string) => withTimeout(session.send(command), timeoutMs, signal)
+
+    if (session.greeting.code !== 220) {
+      return result('unknown', `Mail server greeted with ${session.greeting.code}`, { mxHost })
+    }
+
+    let hello = await send(`EHLO ${heloName}`)
+    if (!isPositive(hello.code)) hello = await send(`HELO ${heloName}`)
+    if (!isPositive(hello.code)) return result('unknown', `Mail server refused HELO (${hello.code})`, { mxHost })
+
+    const mailFrom = await send(`MAIL FROM:<${fromAddress}>`)
+    if (!isPositive(mailFrom.code)) {
+      return result('unknown', `Mail server refused the probe sender (${mailFrom.code})`, { mxHost })
+    }
+
+    const rcpt = await send(`RCPT TO:<${email}>`)
+    if (rcpt.code >= 500) {
+      return result('undeliverable', `Mailbox rejected: ${rcpt.code} ${rcpt.message}`.trim(), { mxHost, smtpCode: rcpt.code })
+    }
+    if (!isPositive(rcpt.code)) {
+      return result('unknown', `Temporary answer from mail server: ${rcpt.code} ${rcpt.message}`.trim(), {
+        mxHost,
+        smtpCode: rcpt.code
+      })
+    }
+
+    let catchAll = catchAllCache.get(domain)
+    if (catchAll === undefined) {
+      catchAll = isPositive((await send(`RCPT TO:<${probeAddress(domain)}>`)).code)
+      catchAllCache.set(domain, catchAll)
+    }
+
+    return catchAll
+      ? result('catch-all', 'Server accepts any address at this domain', { mxHost, smtpCode: rcpt.code })
+      : result('deliverable', 'Mailbox accepted by the mail server', { mxHost, smtpCode: rcpt.code })
+  }
+
+  const verify = async (email: string, signal?: AbortSignal): Promise<DeliverabilityResult> => {
+    throwIfAborted(signal)
+    const domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase()
+
+    let records: MxRecord[]
+    try {
+      records = await lookupMx(domain, signal)
+    } catch (error: any) {
+      if (isAbortError(error)) throw error
+      console.log('MX lookup failed for', domain, error)
+      return result('unknown', `MX lookup failed: ${error?.message || 'unknown error'}`)
+    }
+
+    // A single "0 ." record is a null MX (RFC 7505): the domain takes no mail
+    const hosts = [...records]
+      .sort((a, b) => a.priority - b.priority)
+      .map(record => record.exchange)
+      .filter(Boolean)
+    if (hosts.length === 0) return result('undeliverable', 'Domain has no mail servers')
+
+    if (!transport) {
+      return result('unknown', `Mail server found (${hosts[0]}); mailbox not probed`, { mxHost: hosts[0] })
+    }
+
+    let lastError = 'No mail server answered'
+    for (const mxHost of hosts.slice(0, MAX_MX_HOSTS)) {
+      throwIfAborted(signal)
+      let session: SmtpSession | null = null
+      try {
+        session = await withTimeout(transport.connect(mxHost, signal), timeoutMs, signal)
+        return await probe(session, email, domain, mxHost, signal)
+      } catch (error: any) {
+        if (isAbortError(error)) throw error
+        console.log('SMTP probe failed for', email, 'via', mxHost, error)
+        lastError = error?.message || 'SMTP probe failed'
+      } finally {
+        if (session) {
+          const open = session
+          open.send('QUIT').catch(() => undefined).finally(() => open.close().catch(() => undefined))
+        }
+      }
+    }
+
+    return result('unknown', lastError, { mxHost: hosts[0] })
+  }
+
+  return { verify }
+}
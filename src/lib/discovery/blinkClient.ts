@@ -0,0 +1,42 @@
+import type { BlinkClient } from '@blinkdotnew/sdk'
+import { abortable } from './abort'
+import type { DiscoveryClient, SearchHit } from './types'
+
+// The search endpoint returns more fields than the SDK declares
+interface RawOrganicResult {
+  title?: string
+  link?: string
+  snippet?: string
+  displayed_link?: string
+  rich_snippet?: {
+    extensions?: string[]
+  }
+}
+
+const toSearchHit = (result: RawOrganicResult): SearchHit => ({
+  title: result.title || '',
+  link: result.link || '',
+  snippet: result.snippet || '',
+  displayedLink: result.displayed_link,
+  extensions: result.rich_snippet?.extensions
+})
+
+// Adapts the global Blink SDK client to the pipeline's DiscoveryClient
+export const createBlinkDiscoveryClient = (blink: BlinkClient): DiscoveryClient => ({
+  generateText: async ({ prompt, maxTokens, signal }) => {
+    const { text } = await blink.ai.generateText({ prompt, maxTokens, signal })
+    return text
+  },
+
+  // search and extractFromUrl don't accept a signal, so they are raced against it
+  search: async (query, options) => {
+    const response = await abortable(blink.data.search(query, { limit: options?.limit }), options?.signal)
+    const organic = (response.organic_results || []) as RawOrganicResult[]
+    return organic.map(toSearchHit)
+  },
+
+  extractFromUrl: async (url, options) => {
+    const content = await abortable(blink.data.extractFromUrl(url), options?.signal)
+    return Array.isArray(content) ? content.join('\n') : content
+  }
+})
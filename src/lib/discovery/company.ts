@@ -0,0 +1,125 @@
+import { companyKey, findDomainPattern, mergeDomainPatterns, type DomainPattern } from './patterns'
+import { runDiscovery } from './pipeline'
+import { normalizeSearchSettings } from './settings'
+import { isOnDomain } from './urls'
+import type { DiscoveryClient, DiscoveryOptions, DiscoveryOutcome, EmailResult } from './types'
+
+// The account a company-mode search targets
+export interface CompanyTarget {
+  // Display name; the domain's first label when only a domain was given
+  company: string
+  domain?: string
+  // Optional role filters, e.g. "marketing", "CTO"
+  roles: string[]
+}
+
+export interface CompanyOutcome extends DiscoveryOutcome {
+  target: CompanyTarget
+  // The address format for the target domain, known or learned in this run
+  pattern?: DomainPattern
+}
+
+const DOMAIN_PATTERN = /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/
+
+// "https://www.acme.com/about" -> "acme.com"; null when the text isn't a domain
+export const parseDomain = (input: string): string | null => {
+  const trimmed = input.trim().toLowerCase()
+  if (!trimmed || /\s/.test(trimmed)) return null
+
+  let host = trimmed
+  try {
+    host = new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).hostname
+  } catch {
+    return null
+  }
+  host = host.replace(/^www\./, '')
+  return DOMAIN_PATTERN.test(host) ? host : null
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+// Accepts a domain, a URL or a company name
+export const parseCompanyTarget = (input: string, roles: string[] = []): CompanyTarget | null => {
+  const trimmed = input.trim()
+  if (!trimmed) return null
+
+  const domain = parseDomain(trimmed)
+  const cleanRoles = Array.from(new Set(roles.map(role => role.trim()).filter(Boolean)))
+  if (domain) {
+    return { company: capitalize(domain.split('.')[0]), domain, roles: cleanRoles }
+  }
+  return { company: trimmed, roles: cleanRoles }
+}
+
+export const describeCompanyTarget = ({ company, domain }: CompanyTarget): string =>
+  domain && companyKey(company) !== domain.split('.')[0] ? `${company} (${domain})` : domain || company
+
+// What the extraction prompts are told to look for
+export const companyPersona = (target: CompanyTarget): string => {
+  const roles = target.roles.length > 0 ? ` in roles such as ${target.roles.join(', ')}` : ''
+  return `People who currently work at ${describeCompanyTarget(target)}${roles}`
+}
+
+// Searches aimed at the company's own team, about and leadership pages first,
+// then pages elsewhere that mention its addresses. No LLM planning needed.
+export const buildCompanyQueries = (target: CompanyTarget, limit: number): string[] => {
+  const { company, domain, roles } = target
+  const name = `"${company}"`
+  const roleQueries = roles.map(role =>
+    domain ? `site:${domain} "${role}"` : `${name} "${role}" email`
+  )
+
+  const queries = domain
+    ? [
+        `site:${domain} team OR about OR leadership`,
+        ...roleQueries,
+        `"@${domain}" email`,
+        `site:${domain} contact OR staff OR directory`,
+        `${name} leadership team`,
+        `"@${domain}" ${roles[0] ? `"${roles[0]}"` : 'contact'}`
+      ]
+    : [
+        `${name} team OR about OR leadership`,
+        ...roleQueries,
+        `${name} staff directory email`,
+        `${name} leadership team contact`,
+        `${name} employees email`
+      ]
+
+  return Array.from(new Set(queries)).slice(0, Math.max(1, limit))
+}
+
+const sameCompany = (result: EmailResult, target: CompanyTarget): boolean => {
+  const wanted = companyKey(target.company)
+  const found = companyKey(result.company)
+  return wanted.length > 0 && found.length > 0 && (found.includes(wanted) || wanted.includes(found))
+}
+
+// Keeps people at the target: addresses on its domain, or, when only a name
+// is known, people the sources tie to the company
+export const belongsToCompany = (target: CompanyTarget) => (result: EmailResult): boolean =>
+  target.domain ? isOnDomain(result.email.slice(result.email.lastIndexOf('@') + 1), target.domain) : sameCompany(result, target)
+
+// Finds everyone relevant at one company and reports its address format.
+// Runs the regular pipeline with company queries, the company's own pages
+// fetched first and results limited to the company.
+export const runCompanyDiscovery = async (
+  client: DiscoveryClient,
+  target: CompanyTarget,
+  options: DiscoveryOptions = {}
+): Promise<CompanyOutcome> => {
+  const settings = normalizeSearchSettings(options.settings)
+  const outcome = await runDiscovery(client, companyPersona(target), {
+    ...options,
+    queries: options.queries?.length ? options.queries : buildCompanyQueries(target, settings.maxQueries),
+    preferDomain: target.domain,
+    resultFilter: belongsToCompany(target)
+  })
+
+  const known = mergeDomainPatterns(options.patterns || [], outcome.patterns)
+  const pattern = target.domain
+    ? known.find(entry => entry.domain === target.domain)
+    : findDomainPattern(known, target.company)
+
+  return { ...outcome, target, pattern }
+}
@@ -0,0 +1,93 @@
+import { companyKey } from './patterns'
+import type { EmailResult } from './types'
+import type { EmailType } from './providers'
+
+// One person and every address we found for them
+export interface Contact {
+  id: string
+  name: string
+  company: string
+  title: string
+  // The address to reach them on first; also emails[0]
+  primaryEmail: string
+  emails: EmailResult[]
+}
+
+const isKnown = (value: string) => value.trim().length > 0 && value.trim().toLowerCase() !== 'unknown'
+
+const nameTokens = (name: string): string[] =>
+  name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(token => token.length > 0 && !['dr', 'mr', 'mrs', 'ms', 'prof'].includes(token))
+
+// "Jane Doe", "jane doe" and "J. Doe" are the same person; "Jane Doe" and
+// "John Doe" aren't
+export const sameName = (a: string, b: string): boolean => {
+  const left = nameTokens(a)
+  const right = nameTokens(b)
+  if (left.length < 2 || right.length < 2) return false
+  if (left[left.length - 1] !== right[right.length - 1]) return false
+
+  const [firstA, firstB] = [left[0], right[0]]
+  return firstA === firstB || (firstA.length === 1 && firstB.startsWith(firstA)) || (firstB.length === 1 && firstA.startsWith(firstB))
+}
+
+// Unknown companies match anything; "Acme" matches "Acme Inc" and "Acme Labs"
+export const sameCompany = (a: string, b: string): boolean => {
+  if (!isKnown(a) || !isKnown(b)) return true
+  const [left, right] = [companyKey(a), companyKey(b)]
+  return left === right || (left.length >= 3 && right.length >= 3 && (left.includes(right) || right.includes(left)))
+}
+
+const TYPE_RANK: Record<EmailType, number> = { corporate: 0, free: 1, disposable: 2 }
+
+// Work addresses first, then personal; bouncing addresses last; confidence breaks ties
+const byPreference = (a: EmailResult, b: EmailResult): number =>
+  Number(a.deliverability?.status === 'undeliverable') - Number(b.deliverability?.status === 'undeliverable') ||
+  Number(!!a.roleAccount) - Number(!!b.roleAccount) ||
+  (TYPE_RANK[a.emailType] ?? 0) - (TYPE_RANK[b.emailType] ?? 0) ||
+  b.confidence - a.confidence
+
+// The address to use for one person out of several candidates
+export const bestAddress = (results: EmailResult[]): EmailResult | undefined => [...results].sort(byPreference)[0]
+
+// The most complete value any address carried
+const pickField = (emails: EmailResult[], field: 'name' | 'company' | 'title'): string =>
+  emails.map(email => email[field]).filter(isKnown).sort((a, b) => b.length - a.length)[0] || 'Unknown'
+
+// Groups addresses that belong to the same person (fuzzy name plus
+// compatible company). Role accounts and nameless results stay on their own.
+// Contacts come back ordered by their primary address's confidence.
+export const groupContacts = (results: EmailResult[]): Contact[] => {
+  const groups: EmailResult[][] = []
+
+  results.forEach(result => {
+    const groupable = !result.roleAccount && isKnown(result.name)
+    const group = groupable
+      ? groups.find(members =>
+          // Every member must match, so "J. Doe" can't bridge Jane and John
+          members.every(member => !member.roleAccount && sameName(member.name, result.name) && sameCompany(member.company, result.company))
+        )
+      : undefined
+    if (group) group.push(result)
+    else groups.push([result])
+  })
+
+  return groups
+    .map(members => {
+      const emails = [...members].sort(byPreference)
+      const primary = emails[0]
+      return {
+        id: `contact-${primary.id}`,
+        name: pickField(emails, 'name'),
+        company: pickField(emails, 'company'),
+        title: pickField(emails, 'title'),
+        primaryEmail: primary.email,
+        emails
+      }
+    })
+    .sort((a, b) => b.emails[0].confidence - a.emails[0].confidence)
+}
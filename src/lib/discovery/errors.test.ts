@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import { createAbortError } from './abort'
+import {
+  AuthExpiredError,
+  BadRequestError,
+  ClientError,
+  ExtractionBlockedError,
+  NetworkError,
+  RateLimitedError,
+  RequestTimeoutError,
+  UnknownClientError,
+  createTypedErrorClient,
+  errorKind,
+  isFatalError,
+  retryAfterMs,
+  summarizeRunErrors,
+  toClientError
+} from './errors'
+import type { DiscoveryClient } from './types'
+
+// Shaped like the SDK's BlinkError: message, code, status, details
+class SdkError extends Error {
+  code?: string
+  status?: number
+  details?: unknown
+
+  constructor(message: string, code?: string, status?: number, details?: unknown) {
+    super(message)
+    this.code = code
+    this.status = status
+    this.details = details
+  }
+}
+
+// generateText rethrows every failure as an AI error with no status
+const aiError = (original: unknown) =>
+  new SdkError('Text generation failed: request failed', 'AI_ERROR', undefined, { originalError: original })
+
+describe('toClientError', () => {
+  it('classifies by HTTP status before anything else', () => {
+    expect(toClientError(new SdkError('Request failed', 'NETWORK_ERROR', 429), 'search')).toBeInstanceOf(RateLimitedError)
+    expect(toClientError(new SdkError('Not authenticated', 'AUTH_ERROR', 401), 'search')).toBeInstanceOf(AuthExpiredError)
+    expect(toClientError(new SdkError('Invalid', 'VALIDATION_ERROR', 400), 'search')).toBeInstanceOf(BadRequestError)
+    expect(toClientError(new SdkError('Gateway timeout', 'NETWORK_ERROR', 504), 'search')).toBeInstanceOf(RequestTimeoutError)
+    expect(toClientError(new SdkError('Server error', 'NETWORK_ERROR', 502), 'search')).toBeInstanceOf(NetworkError)
+  })
+
+  it('lets the status win over the wording', () => {
+    const error = toClientError(new SdkError('rate limit mentioned in a 500', 'NETWORK_ERROR', 500), 'search')
+    expect(error.kind).toBe('network')
+  })
+
+  it('treats a network error with status 0 as network, even from the extract endpoint', () => {
+    const noResponse = new SdkError('Network request failed: Failed to fetch', 'NETWORK_ERROR', 0, {
+      originalError: new TypeError('Failed to fetch')
+    })
+    expect(toClientError(noResponse, 'extract')).toBeInstanceOf(NetworkError)
+  })
+
+  it('reads any other answer from the extract endpoint as a blocked page', () => {
+    expect(toClientError(new SdkError('HTTP 403', 'NETWORK_ERROR', 403), 'extract')).toBeInstanceOf(ExtractionBlockedError)
+    expect(toClientError(new Error('Something odd'), 'extract')).toBeInstanceOf(ExtractionBlockedError)
+  })
+
+  it('unwraps the error generateText wraps', () => {
+    const rateLimited = toClientError(aiError(new SdkError('Too many', 'NETWORK_ERROR', 429, { retry_after: 7 })), 'generate')
+    expect(rateLimited).toBeInstanceOf(RateLimitedError)
+    expect(rateLimited.status).toBe(429)
+    expect(rateLimited.retryAfterMs).toBe(7000)
+
+    expect(toClientError(aiError(new SdkError('Expired', 'AUTH_ERROR', 401)), 'generate')).toBeInstanceOf(AuthExpiredError)
+  })
+
+  it('falls back to the message only when nothing else says what happened', () => {
+    expect(toClientError(new Error('Request timed out'), 'search').kind).toBe('timeout')
+    expect(toClientError(new TypeError('Failed to fetch'), 'search').kind).toBe('network')
+    expect(toClientError(new Error('Something odd'), 'search')).toBeInstanceOf(UnknownClientError)
+  })
+
+  it('keeps the original as the cause and passes typed errors through', () => {
+    const original = new SdkError('Invalid', 'VALIDATION_ERROR', 400)
+    const typed = toClientError(original, 'search')
+    expect(typed).toBeInstanceOf(ClientError)
+    expect(typed.cause).toBe(original)
+    expect(typed.endpoint).toBe('search')
+    expect(toClientError(typed, 'generate')).toBe(typed)
+  })
+})
+
+describe('retryAfterMs', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(retryAfterMs({ details: { retryAfter: '3' } })).toBe(3000)
+    expect(retryAfterMs({ details: { headers: { 'retry-after': 'Thu, 01 Jan 2026 00:00:10 GMT' } } }, Date.UTC(2026, 0, 1))).toBe(10000)
+    expect(retryAfterMs(new Error('no hint'))).toBeNull()
+  })
+})
+
+describe('isFatalError', () => {
+  it('stops the run for auth and quota failures only', () => {
+    expect(isFatalError(new AuthExpiredError('Signed out'))).toBe(true)
+    expect(isFatalError(new NetworkError('Offline'))).toBe(false)
+    expect(isFatalError(createAbortError())).toBe(false)
+  })
+})
+
+describe('createTypedErrorClient', () => {
+  const failing = (error: unknown): DiscoveryClient => ({
+    generateText: () => Promise.reject(error),
+    search: () => Promise.reject(error),
+    extractFromUrl: () => Promise.reject(error)
+  })
+
+  it('rethrows SDK failures as typed errors tagged with the endpoint', async () => {
+    const client = createTypedErrorClient(failing(new SdkError('HTTP 403', 'NETWORK_ERROR', 403)))
+    await expect(client.extractFromUrl('https://acme.com')).rejects.toBeInstanceOf(ExtractionBlockedError)
+    await expect(client.search('q')).rejects.toMatchObject({ kind: 'unknown', endpoint: 'search' })
+  })
+
+  it('leaves aborts alone', async () => {
+    const client = createTypedErrorClient(failing(createAbortError()))
+    await expect(client.search('q')).rejects.toMatchObject({ name: 'AbortError' })
+    expect(errorKind(createAbortError())).toBe('unknown')
+  })
+})
+
+describe('summarizeRunErrors', () => {
+  it('groups by kind, most frequent first, keeping the latest message', () => {
+    const summary = summarizeRunErrors([
+      { kind: 'network', message: 'first' },
+      { kind: 'extraction-blocked', message: 'blocked' },
+      { kind: 'network', message: 'second' }
+    ])
+    expect(summary).toEqual([
+      { kind: 'network', count: 2, example: 'second' },
+      { kind: 'extraction-blocked', count: 1, example: 'blocked' }
+    ])
+  })
+})
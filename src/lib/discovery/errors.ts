@@ -0,0 +1,293 @@
+import { isAbortError } from './abort'
+import type { SchedulerEndpoint } from './scheduler'
+import type { DiscoveryClient, RunError } from './types'
+
+// Every way an SDK call can fail, as far as deciding what to do next goes
+export type ErrorKind =
+  | 'rate-limited'
+  | 'quota-exceeded'
+  | 'bad-request'
+  | 'network'
+  | 'extraction-blocked'
+  | 'parse-failed'
+  | 'timeout'
+  | 'auth-expired'
+  | 'unknown'
+
+export interface ClientErrorDetails {
+  // HTTP status, when the failure came with one
+  status?: number
+  endpoint?: SchedulerEndpoint
+  // How long the service asked us to wait, for rate limits
+  retryAfterMs?: number
+  // The SDK or fetch error this was made from
+  cause?: unknown
+}
+
+// Base of every typed client failure. Check for a subclass with instanceof, or
+// read kind where a plain value is needed (retry policy, stored jobs).
+export abstract class ClientError extends Error {
+  abstract readonly kind: ErrorKind
+  readonly status?: number
+  readonly endpoint?: SchedulerEndpoint
+  readonly retryAfterMs?: number
+  declare cause?: unknown
+
+  constructor(message: string, { status, endpoint, retryAfterMs, cause }: ClientErrorDetails = {}) {
+    super(message)
+    this.status = status
+    this.endpoint = endpoint
+    this.retryAfterMs = retryAfterMs
+    this.cause = cause
+  }
+}
+
+// Names are spelled out because bundling renames the classes
+export class RateLimitedError extends ClientError {
+  readonly kind = 'rate-limited'
+  name = 'RateLimitedError'
+}
+
+export class QuotaExceededError extends ClientError {
+  readonly kind = 'quota-exceeded'
+  name = 'QuotaExceededError'
+}
+
+export class BadRequestError extends ClientError {
+  readonly kind = 'bad-request'
+  name = 'BadRequestError'
+}
+
+export class NetworkError extends ClientError {
+  readonly kind = 'network'
+  name = 'NetworkError'
+}
+
+export class ExtractionBlockedError extends ClientError {
+  readonly kind = 'extraction-blocked'
+  name = 'ExtractionBlockedError'
+}
+
+export class ParseFailedError extends ClientError {
+  readonly kind = 'parse-failed'
+  name = 'ParseFailedError'
+}
+
+export class RequestTimeoutError extends ClientError {
+  readonly kind = 'timeout'
+  name = 'RequestTimeoutError'
+}
+
+export class AuthExpiredError extends ClientError {
+  readonly kind = 'auth-expired'
+  name = 'AuthExpiredError'
+}
+
+export class UnknownClientError extends ClientError {
+  readonly kind = 'unknown'
+  name = 'UnknownClientError'
+}
+
+const ERROR_CLASSES: Record<ErrorKind, new (message: string, details?: ClientErrorDetails) => ClientError> = {
+  'rate-limited': RateLimitedError,
+  'quota-exceeded': QuotaExceededError,
+  'bad-request': BadRequestError,
+  network: NetworkError,
+  'extraction-blocked': ExtractionBlockedError,
+  'parse-failed': ParseFailedError,
+  timeout: RequestTimeoutError,
+  'auth-expired': AuthExpiredError,
+  unknown: UnknownClientError
+}
+
+export const ERROR_KIND_LABELS: Record<ErrorKind, string> = {
+  'rate-limited': 'Rate limited',
+  'quota-exceeded': 'Hourly quota used up',
+  'bad-request': 'Rejected request',
+  network: 'Network error',
+  'extraction-blocked': 'Page could not be read',
+  'parse-failed': 'Unreadable AI reply',
+  timeout: 'Timed out',
+  'auth-expired': 'Signed out',
+  unknown: 'Unexpected error'
+}
+
+// What the user can do about each kind of failure
+export const ERROR_KIND_HINTS: Record<ErrorKind, string> = {
+  'rate-limited': 'Rate limit reached. Please wait a moment before searching again.',
+  'quota-exceeded': 'The hourly quota is used up. Resume the search from Search Jobs once it resets.',
+  'bad-request': 'Some content could not be processed. This is normal - try a different persona or search terms.',
+  network: 'Network error. Please check your connection and try again.',
+  'extraction-blocked': 'Some sites blocked page extraction, so only their search snippets were used.',
+  'parse-failed': 'Some AI replies were malformed and skipped.',
+  timeout: 'The search service took too long to answer. Try again in a moment.',
+  'auth-expired': 'Your session expired. Sign in again and resume the search.',
+  unknown: 'Something went wrong. Try again or refine your persona description.'
+}
+
+// What to tell the user about a failure that stopped a run; the quota error
+// says when it resets, which the generic hint can't
+export const describeFailure = (kind: ErrorKind, message: string): string =>
+  kind === 'quota-exceeded' ? `${message}. Resume the search from Search Jobs then.` : ERROR_KIND_HINTS[kind]
+
+const parseRetryAfter = (value: unknown, now: number): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.max(0, value * 1000)
+  if (typeof value !== 'string' || !value.trim()) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+// The fields SDK and fetch errors carry that say what went wrong
+interface ErrorFields {
+  name?: string
+  code?: string
+  status?: number
+  retryAfter?: unknown
+  details?: {
+    status?: number
+    retryAfter?: unknown
+    retry_after?: unknown
+    headers?: Record<string, unknown>
+    error?: { retry_after?: unknown }
+    originalError?: unknown
+  }
+}
+
+// The error and whatever it wraps, outermost first. The SDK rethrows failures
+// it didn't raise itself with the original in details.originalError:
+// generateText as an AI error with no status, a request with no response as
+// a network error with status 0.
+const errorChain = (error: unknown): ErrorFields[] => {
+  const chain: ErrorFields[] = []
+  let current = error
+  while (current && typeof current === 'object' && chain.length < 4 && !chain.includes(current)) {
+    chain.push(current as ErrorFields)
+    current = (current as ErrorFields).details?.originalError
+  }
+  return chain
+}
+
+// The first real HTTP status along the chain; 0 means no response came back
+const chainStatus = (chain: ErrorFields[]): number | undefined =>
+  chain.map(layer => layer.status ?? layer.details?.status).find(status => !!status)
+
+// Retry-After in ms, wherever the error or what it wraps carries it: SDK
+// errors keep the response body in details, and a few endpoints echo the
+// header there
+export const retryAfterMs = (error: unknown, now: number = Date.now()): number | null => {
+  if (error instanceof ClientError && error.retryAfterMs !== undefined) return error.retryAfterMs
+  for (const layer of errorChain(error)) {
+    const candidates = [
+      layer.retryAfter,
+      layer.details?.retryAfter,
+      layer.details?.retry_after,
+      layer.details?.error?.retry_after,
+      layer.details?.headers?.['retry-after']
+    ]
+    for (const candidate of candidates) {
+      const ms = parseRetryAfter(candidate, now)
+      if (ms !== null) return ms
+    }
+  }
+  return null
+}
+
+// Sorts a failure by what it and anything it wraps carry: the HTTP status,
+// the SDK's error code (AUTH_ERROR, VALIDATION_ERROR, NETWORK_ERROR) and the
+// error's name. Null when none of them settle it.
+const classifyByFields = (error: unknown, endpoint?: SchedulerEndpoint): ErrorKind | null => {
+  const chain = errorChain(error)
+  const status = chainStatus(chain)
+  const hasCode = (code: string) => chain.some(layer => layer.code === code)
+
+  if (chain.some(layer => layer.name === 'TimeoutError')) return 'timeout'
+  if (status === 429) return 'rate-limited'
+  if (status === 401 || hasCode('AUTH_ERROR')) return 'auth-expired'
+  if (status === 408 || status === 504) return 'timeout'
+  // A network error with no real status never got an answer
+  if (hasCode('NETWORK_ERROR') && !status) return 'network'
+  // The extraction service answers for the site it fetched, so any other
+  // answer from it means the page couldn't be read
+  if (endpoint === 'extract' && status) return 'extraction-blocked'
+  if (status === 400 || status === 422 || hasCode('VALIDATION_ERROR')) return 'bad-request'
+  if (status && status >= 500) return 'network'
+  return null
+}
+
+// Fallback for failures with no status or SDK code, such as a fetch rejected
+// before any response or a proxy's plain-text error. Only consulted after
+// classifyByFields, so a typed field always wins over the wording.
+const classifyByMessage = (message: string): ErrorKind | null => {
+  if (/\b429\b|rate.?limit|too many requests/i.test(message)) return 'rate-limited'
+  if (/\b401\b|unauthori[sz]ed|not authenticated|(token|session) (has )?expired/i.test(message)) return 'auth-expired'
+  if (/timed? ?out/i.test(message)) return 'timeout'
+  if (/network|failed to fetch|fetch failed|load failed|ECONNRESET|ENOTFOUND|offline/i.test(message)) return 'network'
+  if (/\b400\b|bad request/i.test(message)) return 'bad-request'
+  return null
+}
+
+const classify = (error: unknown, endpoint?: SchedulerEndpoint): ErrorKind => {
+  const message = (error as { message?: unknown } | null)?.message
+  return (
+    classifyByFields(error, endpoint) ??
+    (typeof message === 'string' ? classifyByMessage(message) : null) ??
+    (endpoint === 'extract' ? 'extraction-blocked' : 'unknown')
+  )
+}
+
+// Wraps any failure in the ClientError subclass for its kind, keeping the
+// original as its cause. Already typed errors pass through unchanged.
+export const toClientError = (error: unknown, endpoint?: SchedulerEndpoint): ClientError => {
+  if (error instanceof ClientError) return error
+  const message = (error as { message?: string } | null)?.message
+  return new ERROR_CLASSES[classify(error, endpoint)](message || String(error), {
+    status: chainStatus(errorChain(error)),
+    endpoint,
+    retryAfterMs: retryAfterMs(error) ?? undefined,
+    cause: error
+  })
+}
+
+export const errorKind = (error: unknown): ErrorKind =>
+  error instanceof ClientError ? error.kind : classify(error)
+
+// Failures every later call in the run would hit too, so the run stops
+// instead of skipping ahead
+export const isFatalError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false
+  const kind = errorKind(error)
+  return kind === 'quota-exceeded' || kind === 'auth-expired'
+}
+
+// Rethrows whatever a client call fails with as a ClientError. Aborts are
+// left alone so cancelling still reads as a cancel.
+export const createTypedErrorClient = (client: DiscoveryClient): DiscoveryClient => {
+  const rethrow = (endpoint: SchedulerEndpoint) => (error: unknown): never => {
+    throw isAbortError(error) ? error : toClientError(error, endpoint)
+  }
+
+  return {
+    generateText: options => client.generateText(options).catch(rethrow('generate')),
+    search: (query, options) => client.search(query, options).catch(rethrow('search')),
+    extractFromUrl: (url, options) => client.extractFromUrl(url, options).catch(rethrow('extract'))
+  }
+}
+
+export interface ErrorSummaryEntry {
+  kind: ErrorKind
+  count: number
+  // The most recent message of this kind
+  example: string
+}
+
+// Groups a run's recovered failures by kind, most frequent first
+export const summarizeRunErrors = (errors: RunError[]): ErrorSummaryEntry[] => {
+  const byKind = new Map<ErrorKind, ErrorSummaryEntry>()
+  errors.forEach(({ kind, message }) => {
+    const entry = byKind.get(kind)
+    byKind.set(kind, { kind, count: (entry?.count || 0) + 1, example: message })
+  })
+  return Array.from(byKind.values()).sort((a, b) => b.count - a.count)
+}
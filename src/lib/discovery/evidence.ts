@@ -0,0 +1,28 @@
+import type { Candidate, Evidence, ExtractedContact } from './types'
+
+const SNIPPET_RADIUS = 120
+
+// Returns the text around the first occurrence of needle, or '' if it isn't there
+export const snippetAround = (content: string, needle: string, radius: number = SNIPPET_RADIUS): string => {
+  const index = content.toLowerCase().indexOf(needle.toLowerCase())
+  if (index === -1) return ''
+
+  const start = Math.max(0, index - radius)
+  const end = Math.min(content.length, index + needle.length + radius)
+  const snippet = content.slice(start, end).replace(/\s+/g, ' ').trim()
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < content.length ? '…' : ''}`
+}
+
+export const contactSnippet = (content: string, contact: ExtractedContact): string =>
+  snippetAround(content, contact.email) ||
+  snippetAround(content, contact.validation.original || contact.email)
+
+export const buildEvidence = (candidate: Candidate): Evidence => ({
+  url: candidate.url,
+  query: candidate.query,
+  snippet: candidate.snippet,
+  extractedAt: candidate.extractedAt,
+  stage: candidate.stage,
+  support: candidate.support
+})
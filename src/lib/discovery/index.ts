@@ -0,0 +1,23 @@
+export * from './types'
+export * from './urls'
+export * from './pipeline'
+export * from './scoring'
+export * from './evidence'
+export * from './verification'
+export * from './validation'
+export * from './patterns'
+export * from './roles'
+export * from './providers'
+export * from './merge'
+export * from './contacts'
+export * from './parsing'
+export * from './abort'
+export * from './progress'
+export * from './settings'
+export * from './persona'
+export * from './company'
+export * from './lookup'
+export * from './scheduler'
+export * from './errors'
+export { RETRY_POLICY, createRetryingClient, type RetryRule } from './retry'
+export { createBlinkDiscoveryClient } from './blinkClient'
@@ -0,0 +1,202 @@
+import { isAbortError } from './abort'
+import { describeCompanyTarget, parseCompanyTarget } from './company'
+import { sameName } from './contacts'
+import { canonicalEmail } from './merge'
+import {
+  applyPattern,
+  buildInferredResult,
+  findDomainPattern,
+  matchPatterns,
+  mergeDomainPatterns,
+  nameParts,
+  type DomainPattern,
+  type EmailPatternId
+} from './patterns'
+import { dedupeResults, runDiscovery, withDeliverability } from './pipeline'
+import { classifyEmailType } from './providers'
+import { buildConfidence } from './scoring'
+import { normalizeSearchSettings } from './settings'
+import { validateEmail } from './validation'
+import type { DiscoveryClient, DiscoveryOptions, DiscoveryOutcome, EmailResult, PersonSighting } from './types'
+
+// One known person to find an address for
+export interface PersonLookup {
+  name: string
+  company: string
+  domain?: string
+  title?: string
+}
+
+export interface LookupOutcome extends DiscoveryOutcome {
+  lookup: PersonLookup
+  // The address format used for the inferred candidates, when one is known
+  pattern?: DomainPattern
+}
+
+// Formats tried when nothing is known about the domain yet, most common first
+const FALLBACK_PATTERNS: EmailPatternId[] = ['first.last', 'flast', 'first', 'firstlast']
+
+// Null unless there's a full name and a company or domain to look in
+export const parsePersonLookup = (name: string, companyInput: string, title?: string): PersonLookup | null => {
+  const target = parseCompanyTarget(companyInput)
+  if (!target || !nameParts(name)) return null
+  return { name: name.trim(), company: target.company, domain: target.domain, title: title?.trim() || undefined }
+}
+
+export const describeLookup = ({ name, company, domain, title }: PersonLookup): string =>
+  `${name}${title ? `, ${title}` : ''} at ${describeCompanyTarget({ company, domain, roles: [] })}`
+
+export const buildLookupQueries = (lookup: PersonLookup, limit: number): string[] => {
+  const name = `"${lookup.name}"`
+  const company = `"${lookup.company}"`
+  const queries = [
+    `${name} ${company} email`,
+    ...(lookup.domain ? [`${name} "@${lookup.domain}"`, `${name} site:${lookup.domain}`] : []),
+    lookup.title ? `${name} ${company} "${lookup.title}"` : `${name} ${company} contact`,
+    `${name} ${company} bio OR profile OR speaker`
+  ]
+  return Array.from(new Set(queries)).slice(0, Math.max(1, limit))
+}
+
+// Keeps addresses the sources tie to the person, or whose format spells their name
+export const belongsToPerson = (lookup: PersonLookup) => (result: EmailResult): boolean =>
+  sameName(result.name, lookup.name) || matchPatterns(result.email, lookup.name).length > 0
+
+// Stands in for a page sighting when no source named the person, so inferred
+// candidates still show what they were built from
+const lookupSighting = (lookup: PersonLookup, pattern: DomainPattern | undefined, query: string): PersonSighting => ({
+  person: { name: lookup.name, company: lookup.company, title: lookup.title },
+  stage: 'search-results',
+  query,
+  snippet: pattern
+    ? `Looked up ${describeLookup(lookup)}. Known addresses at ${pattern.domain}: ${pattern.examples
+        .slice(0, 3)
+        .map(example => `${example.email} (${example.name})`)
+        .join(', ')}`
+    : `Looked up ${describeLookup(lookup)}. No addresses at ${lookup.domain} are known yet.`,
+  extractedAt: new Date().toISOString()
+})
+
+// Common formats at a domain we know nothing about; ranked below anything found
+const guessResults = (lookup: PersonLookup, domain: string, sighting: PersonSighting): EmailResult[] =>
+  FALLBACK_PATTERNS.map((pattern, index) => {
+    const email = applyPattern(pattern, lookup.name, domain)!
+    const { confidence, confidenceBreakdown } = buildConfidence([
+      {
+        key: 'inferred-pattern',
+        label: 'Common format guess',
+        points: -5 - index * 2,
+        detail: `No addresses at ${domain} are known yet; ${pattern} is a common format`
+      },
+      {
+        key: 'verbatim',
+        label: 'Not in source text',
+        points: -10,
+        detail: 'The address was generated, not found'
+      }
+    ])
+
+    return {
+      id: `guess-${Date.now()}-${index}`,
+      email,
+      name: lookup.name,
+      company: lookup.company,
+      title: lookup.title || 'Unknown',
+      confidence,
+      confidenceBreakdown,
+      source: 'Format guess',
+      evidence: [{ query: sighting.query, snippet: sighting.snippet, extractedAt: sighting.extractedAt, stage: sighting.stage, support: 'pattern' }],
+      support: 'pattern',
+      validation: validateEmail(email).validation,
+      emailType: classifyEmailType(email),
+      inference: { pattern, domain, support: 0, total: 0 }
+    }
+  })
+
+// Candidates built from the domain's format rather than found in a source
+const inferCandidates = (
+  lookup: PersonLookup,
+  pattern: DomainPattern | undefined,
+  people: PersonSighting[],
+  query: string
+): EmailResult[] => {
+  const sightings = people.filter(sighting => sameName(sighting.person.name, lookup.name))
+  const evidence = sightings.length > 0 ? sightings : [lookupSighting(lookup, pattern, query)]
+
+  if (pattern) {
+    const email = applyPattern(pattern.pattern, lookup.name, pattern.domain)
+    if (!email) return []
+    // Every sighting is filed under the looked-up person so they back one address
+    return [
+      buildInferredResult(
+        email,
+        pattern,
+        evidence.map(sighting => ({
+          ...sighting,
+          person: { ...sighting.person, name: lookup.name, company: lookup.company }
+        }))
+      )
+    ]
+  }
+  return lookup.domain ? guessResults(lookup, lookup.domain, evidence[0]) : []
+}
+
+// Finds candidate addresses for one person: addresses found in sources that
+// name them, plus ones built from the domain's known format (or common
+// formats when none is known), ranked together. Inferred candidates are
+// checked with options.deliverability like found ones.
+export const runPersonLookup = async (
+  client: DiscoveryClient,
+  lookup: PersonLookup,
+  options: DiscoveryOptions = {}
+): Promise<LookupOutcome> => {
+  const settings = normalizeSearchSettings(options.settings)
+  const queries = options.queries?.length ? options.queries : buildLookupQueries(lookup, settings.maxQueries)
+  const { deliverability, signal, onProgress } = options
+  const outcome = await runDiscovery(client, describeLookup(lookup), {
+    ...options,
+    // The lookup's own checks come after the search, so it reports the end itself
+    onProgress: event => {
+      if (event.type === 'stage' && (event.stage === 'done' || event.stage === 'cancelled')) return
+      onProgress?.(event)
+    },
+    queries,
+    preferDomain: lookup.domain,
+    resultFilter: belongsToPerson(lookup)
+  })
+
+  const known = mergeDomainPatterns(options.patterns || [], outcome.patterns)
+  const pattern = lookup.domain
+    ? known.find(entry => entry.domain === lookup.domain)
+    : findDomainPattern(known, lookup.company)
+
+  const found = new Set(outcome.results.map(result => canonicalEmail(result.email)))
+  let inferred = inferCandidates(lookup, pattern, outcome.people, queries[0]).filter(
+    result => !found.has(canonicalEmail(result.email))
+  )
+
+  let { status } = outcome
+  if (status === 'completed' && deliverability && inferred.length > 0) {
+    onProgress?.({ type: 'stage', stage: 'checking' })
+    const checked: EmailResult[] = []
+    for (const result of inferred) {
+      try {
+        checked.push(withDeliverability(result, await deliverability.verify(result.email, signal)))
+      } catch (error) {
+        if (isAbortError(error)) {
+          status = 'cancelled'
+          break
+        }
+        console.log('Deliverability check failed for', result.email, error)
+        checked.push(result)
+      }
+    }
+    inferred = [...checked, ...inferred.slice(checked.length)]
+  }
+
+  const results = dedupeResults([...outcome.results, ...inferred], settings.maxResults)
+  onProgress?.({ type: 'results', results })
+  onProgress?.({ type: 'stage', stage: status === 'cancelled' ? 'cancelled' : 'done' })
+
+  return { ...outcome, status, results, lookup, pattern }
+}
@@ -0,0 +1,106 @@
+import type { Candidate, ExtractedContact } from './types'
+
+// Providers that ignore dots in the local part, and the domain they alias to
+const DOT_INSENSITIVE_DOMAINS: Record<string, string> = {
+  'gmail.com': 'gmail.com',
+  'googlemail.com': 'gmail.com'
+}
+
+// The key two spellings of one mailbox share: lowercase, no whitespace, no
+// "+tag" sub-address, and no dots for providers that ignore them. Only used
+// to group sightings; the address shown is one that was actually seen.
+export const canonicalEmail = (email: string): string => {
+  const compact = email.replace(/\s+/g, '').toLowerCase()
+  const at = compact.lastIndexOf('@')
+  if (at === -1) return compact
+
+  let localPart = compact.slice(0, at).split('+')[0]
+  let domain = compact.slice(at + 1)
+  const alias = DOT_INSENSITIVE_DOMAINS[domain]
+  if (alias) {
+    localPart = localPart.replace(/\./g, '')
+    domain = alias
+  }
+
+  return `${localPart || compact.slice(0, at)}@${domain}`
+}
+
+const isKnown = (value?: string): value is string =>
+  !!value && value.trim().length > 0 && value.trim().toLowerCase() !== 'unknown'
+
+// Most common value across sightings; page extractions win ties, then the
+// more complete (longer) value
+const vote = (sightings: Candidate[], field: keyof Omit<ExtractedContact, 'email' | 'validation'>): string | undefined => {
+  const tally = new Map<string, { value: string; count: number; fromPage: boolean }>()
+
+  sightings.forEach(candidate => {
+    const value = candidate.contact[field]
+    if (!isKnown(value)) return
+    const key = value.trim().toLowerCase()
+    const entry = tally.get(key) || { value: value.trim(), count: 0, fromPage: false }
+    entry.count++
+    entry.fromPage = entry.fromPage || candidate.stage === 'page-content'
+    tally.set(key, entry)
+  })
+
+  const [best] = Array.from(tally.values()).sort(
+    (a, b) => b.count - a.count || Number(b.fromPage) - Number(a.fromPage) || b.value.length - a.value.length
+  )
+  return best?.value
+}
+
+// One contact built from every sighting of an address, so a title or company
+// seen only in the second sighting isn't lost
+export const mergeContacts = (sightings: Candidate[]): ExtractedContact => {
+  const emailCounts = new Map<string, number>()
+  sightings.forEach(({ contact }) => emailCounts.set(contact.email, (emailCounts.get(contact.email) || 0) + 1))
+
+  // Show the spelling seen most often, preferring one found word-for-word,
+  // then the plain form without a +tag or extra dots
+  const isPlain = (candidate: Candidate) => canonicalEmail(candidate.contact.email) === candidate.contact.email
+  const display = [...sightings].sort(
+    (a, b) =>
+      (emailCounts.get(b.contact.email) || 0) - (emailCounts.get(a.contact.email) || 0) ||
+      Number(b.support === 'verbatim') - Number(a.support === 'verbatim') ||
+      Number(isPlain(b)) - Number(isPlain(a))
+  )[0].contact
+
+  return {
+    email: display.email,
+    // A plain sighting outranks one that had to be decoded
+    validation:
+      sightings.map(candidate => candidate.contact.validation).find(validation => validation.status === 'valid') ||
+      display.validation,
+    name: vote(sightings, 'name'),
+    company: vote(sightings, 'company'),
+    title: vote(sightings, 'title'),
+    source: vote(sightings, 'source')
+  }
+}
+
+// Groups sightings of the same mailbox under its canonical key
+export const groupSightings = (candidates: Candidate[]): Map<string, Candidate[]> => {
+  const groups = new Map<string, Candidate[]>()
+  candidates.forEach(candidate => {
+    const key = canonicalEmail(candidate.contact.email)
+    groups.set(key, [...(groups.get(key) || []), candidate])
+  })
+  return groups
+}
+
+// Other spellings of the address that were seen, e.g. with a +tag
+export const emailAliases = (email: string, sightings: Candidate[]): string[] =>
+  Array.from(new Set(sightings.map(candidate => candidate.contact.email))).filter(alias => alias !== email)
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+// Sightings on the same site aren't independent; snippet sightings count
+// once per query that surfaced them
+export const independentSources = (candidates: Candidate[]): string[] =>
+  Array.from(new Set(candidates.map(candidate => (candidate.url ? hostOf(candidate.url) : `search results for "${candidate.query}"`))))
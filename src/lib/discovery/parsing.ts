@@ -0,0 +1,170 @@
+import { z } from 'zod'
+import type { ExtractedContact, ExtractedPerson } from './types'
+import { validateEmail } from './validation'
+
+// 'invalid-email' entries parsed fine but the address failed validation
+export type ParseIssueKind = 'no-json' | 'invalid-json' | 'schema' | 'entry' | 'invalid-email'
+
+export interface ParseIssue {
+  kind: ParseIssueKind
+  message: string
+  // The offending text or entry, truncated for display
+  excerpt?: string
+}
+
+export interface ExtractionParseResult {
+  contacts: ExtractedContact[]
+  // Matching people the text names without giving an address
+  people: ExtractedPerson[]
+  issues: ParseIssue[]
+}
+
+const EXCERPT_LENGTH = 160
+
+// Empty strings, nulls and "Unknown" all mean the LLM didn't know
+const optionalText = z.preprocess(
+  value => {
+    if (typeof value !== 'string') return undefined
+    const trimmed = value.trim()
+    return trimmed && trimmed.toLowerCase() !== 'unknown' ? trimmed : undefined
+  },
+  z.string().optional()
+)
+
+// Decodes and validates the address; invalid ones are kept with their reason
+// so the caller can report them
+const emailField = z.string().trim().min(1, 'Missing email').transform(validateEmail)
+
+export const extractedContactSchema = z
+  .object({
+    email: emailField,
+    name: optionalText,
+    company: optionalText,
+    title: optionalText,
+    source: optionalText
+  })
+  .transform(({ email, ...contact }): ExtractedContact => ({ ...contact, ...email }))
+
+export const extractedPersonSchema = z.object({
+  name: optionalText.pipe(z.string('Missing name and email')),
+  company: optionalText,
+  title: optionalText,
+  source: optionalText
+})
+
+const hasNoEmail = (entry: unknown): boolean => {
+  const email = (entry as { email?: unknown } | null)?.email
+  return email === undefined || email === null || (typeof email === 'string' && email.trim() === '')
+}
+
+// Entries are validated one by one so a single bad entry doesn't sink the reply
+export const extractionResponseSchema = z.object({
+  emails: z.array(z.unknown())
+})
+
+const excerpt = (value: unknown): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text
+}
+
+const stripCodeFences = (text: string): string =>
+  text.replace(/```(?:json)?/gi, '')
+
+// Finds every balanced top-level {...} block, ignoring braces inside strings
+export const findJsonObjects = (text: string): string[] => {
+  const objects: string[] = []
+  let depth = 0
+  let start = -1
+  let inString = false
+  let escaped = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"' && depth > 0) {
+      inString = true
+    } else if (char === '{') {
+      if (depth === 0) start = i
+      depth++
+    } else if (char === '}' && depth > 0) {
+      depth--
+      if (depth === 0) objects.push(text.slice(start, i + 1))
+    }
+  }
+
+  return objects
+}
+
+// Parses an extraction reply from the LLM. Tolerates code fences, prose around
+// the JSON and replies split into several objects; every problem is reported
+// rather than thrown.
+export const parseExtractionResponse = (text: string): ExtractionParseResult => {
+  const contacts: ExtractedContact[] = []
+  const people: ExtractedPerson[] = []
+  const issues: ParseIssue[] = []
+  const blocks = findJsonObjects(stripCodeFences(text))
+
+  if (blocks.length === 0) {
+    issues.push({ kind: 'no-json', message: 'Reply did not contain a JSON object', excerpt: excerpt(text) })
+    return { contacts, people, issues }
+  }
+
+  blocks.forEach(block => {
+    let data: unknown
+    try {
+      data = JSON.parse(block)
+    } catch (error) {
+      issues.push({
+        kind: 'invalid-json',
+        message: error instanceof Error ? error.message : 'Invalid JSON',
+        excerpt: excerpt(block)
+      })
+      return
+    }
+
+    const response = extractionResponseSchema.safeParse(data)
+    if (!response.success) {
+      issues.push({ kind: 'schema', message: 'Object has no "emails" array', excerpt: excerpt(block) })
+      return
+    }
+
+    response.data.emails.forEach(entry => {
+      // A named person with no address is still useful for pattern inference
+      if (hasNoEmail(entry)) {
+        const person = extractedPersonSchema.safeParse(entry)
+        if (person.success) {
+          people.push(person.data)
+        } else {
+          issues.push({ kind: 'entry', message: 'Entry has neither an email nor a name', excerpt: excerpt(entry) })
+        }
+        return
+      }
+
+      const contact = extractedContactSchema.safeParse(entry)
+      if (contact.success && contact.data.validation.status === 'invalid') {
+        issues.push({
+          kind: 'invalid-email',
+          message: `${contact.data.email}: ${contact.data.validation.reason}`,
+          excerpt: excerpt(entry)
+        })
+      } else if (contact.success) {
+        contacts.push(contact.data)
+      } else {
+        issues.push({
+          kind: 'entry',
+          message: contact.error.issues.map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`).join('; '),
+          excerpt: excerpt(entry)
+        })
+      }
+    })
+  })
+
+  return { contacts, people, issues }
+}
@@ -0,0 +1,286 @@
+import { buildConfidence, COMPANY_SUFFIXES } from './scoring'
+import { snippetAround } from './evidence'
+import { canonicalEmail } from './merge'
+import { classifyEmailType } from './providers'
+import { validateEmail } from './validation'
+import type { EmailResult, Evidence, ExtractedPerson, PersonSighting } from './types'
+
+// How a company builds the part before the @ from a person's name
+export type EmailPatternId =
+  | 'first.last'
+  | 'firstlast'
+  | 'first_last'
+  | 'first-last'
+  | 'flast'
+  | 'f.last'
+  | 'first'
+  | 'firstl'
+  | 'last'
+  | 'last.first'
+  | 'lastf'
+
+// Most common formats first; breaks ties between equally supported patterns
+export const EMAIL_PATTERNS: EmailPatternId[] = [
+  'first.last',
+  'flast',
+  'first',
+  'firstlast',
+  'f.last',
+  'firstl',
+  'first_last',
+  'last',
+  'first-last',
+  'last.first',
+  'lastf'
+]
+
+const buildLocalPart: Record<EmailPatternId, (first: string, last: string) => string> = {
+  'first.last': (first, last) => `${first}.${last}`,
+  firstlast: (first, last) => `${first}${last}`,
+  first_last: (first, last) => `${first}_${last}`,
+  'first-last': (first, last) => `${first}-${last}`,
+  flast: (first, last) => `${first[0]}${last}`,
+  'f.last': (first, last) => `${first[0]}.${last}`,
+  first: first => first,
+  firstl: (first, last) => `${first}${last[0]}`,
+  last: (_, last) => last,
+  'last.first': (first, last) => `${last}.${first}`,
+  lastf: (first, last) => `${last}${first[0]}`
+}
+
+export interface PatternExample {
+  email: string
+  name: string
+}
+
+// What we know about one company domain's address format
+export interface DomainPattern {
+  domain: string
+  company?: string
+  // The best-supported format, and how many known addresses follow it
+  pattern: EmailPatternId
+  support: number
+  // Known addresses that follow any recognised format
+  total: number
+  examples: PatternExample[]
+  updatedAt: string
+}
+
+// Where an inferred address came from
+export interface PatternInference {
+  pattern: EmailPatternId
+  domain: string
+  support: number
+  total: number
+}
+
+const MAX_EXAMPLES = 25
+const HONORIFICS = ['dr', 'mr', 'mrs', 'ms', 'miss', 'prof', 'sir']
+const NAME_SUFFIXES = ['jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md', 'mba', 'cpa']
+
+// First and last name in the ASCII form addresses use, or null for a single name
+export const nameParts = (name: string): { first: string; last: string } | null => {
+  const tokens = name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z]+/)
+    .filter(token => token.length > 0 && !HONORIFICS.includes(token) && !NAME_SUFFIXES.includes(token))
+
+  if (tokens.length < 2 || tokens[0].length < 2) return null
+  return { first: tokens[0], last: tokens[tokens.length - 1] }
+}
+
+const splitEmail = (email: string) => {
+  const at = email.lastIndexOf('@')
+  // Plus tags are personal sub-addresses, not part of the format
+  return { localPart: email.slice(0, at).toLowerCase().split('+')[0], domain: email.slice(at + 1).toLowerCase() }
+}
+
+export const companyKey = (company?: string): string =>
+  (company || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !COMPANY_SUFFIXES.includes(token))
+    .join('')
+
+// Every format the address fits for this name
+export const matchPatterns = (email: string, name: string): EmailPatternId[] => {
+  const parts = nameParts(name)
+  if (!parts) return []
+  const { localPart } = splitEmail(email)
+  return EMAIL_PATTERNS.filter(pattern => buildLocalPart[pattern](parts.first, parts.last) === localPart)
+}
+
+export const applyPattern = (pattern: EmailPatternId, name: string, domain: string): string | null => {
+  const parts = nameParts(name)
+  return parts ? `${buildLocalPart[pattern](parts.first, parts.last)}@${domain}` : null
+}
+
+// Counts which format the examples follow and picks the best supported one
+const summarize = (domain: string, company: string | undefined, examples: PatternExample[]): DomainPattern | null => {
+  const counts = new Map<EmailPatternId, number>()
+  let total = 0
+
+  examples.forEach(({ email, name }) => {
+    const matches = matchPatterns(email, name)
+    if (matches.length > 0) total++
+    matches.forEach(pattern => counts.set(pattern, (counts.get(pattern) || 0) + 1))
+  })
+
+  const best = EMAIL_PATTERNS.reduce<EmailPatternId | null>(
+    (winner, pattern) => ((counts.get(pattern) || 0) > (winner ? counts.get(winner) || 0 : 0) ? pattern : winner),
+    null
+  )
+  if (!best) return null
+
+  return {
+    domain,
+    company,
+    pattern: best,
+    support: counts.get(best) || 0,
+    total,
+    examples,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+// Only addresses we trust and can tie to a full name teach us anything
+const isLearnable = (result: EmailResult): boolean =>
+  result.support === 'verbatim' &&
+  !result.inference &&
+  !result.roleAccount &&
+  result.validation?.status !== 'invalid' &&
+  result.deliverability?.status !== 'undeliverable' &&
+  nameParts(result.name) !== null
+
+// Folds newly found addresses into what's already known about their domains.
+// Returns only the domains that gained an example.
+export const learnDomainPatterns = (results: EmailResult[], known: DomainPattern[]): DomainPattern[] => {
+  const byDomain = new Map(known.map(pattern => [pattern.domain, pattern]))
+  const additions = new Map<string, { company?: string; examples: PatternExample[] }>()
+
+  results.filter(isLearnable).forEach(result => {
+    const { domain } = splitEmail(result.email)
+    const existing = byDomain.get(domain)
+    const entry = additions.get(domain) || {
+      company: existing?.company,
+      examples: existing ? [...existing.examples] : []
+    }
+    if (entry.examples.some(example => example.email === result.email)) return
+
+    entry.examples = [{ email: result.email, name: result.name }, ...entry.examples].slice(0, MAX_EXAMPLES)
+    if (!entry.company && result.company !== 'Unknown') entry.company = result.company
+    additions.set(domain, entry)
+  })
+
+  return Array.from(additions.entries())
+    .map(([domain, { company, examples }]) => summarize(domain, company, examples))
+    .filter((pattern): pattern is DomainPattern => pattern !== null)
+}
+
+// Newly learned patterns replace the known ones for the same domain
+export const mergeDomainPatterns = (known: DomainPattern[], learned: DomainPattern[]): DomainPattern[] => [
+  ...learned,
+  ...known.filter(pattern => !learned.some(update => update.domain === pattern.domain))
+]
+
+// The known domain for a company name, matching either the stored company or the domain itself
+export const findDomainPattern = (patterns: DomainPattern[], company?: string): DomainPattern | undefined => {
+  const key = companyKey(company)
+  if (key.length < 2) return undefined
+
+  return (
+    patterns.find(pattern => companyKey(pattern.company) === key) ||
+    patterns.find(pattern => pattern.domain.split('.').slice(0, -1).join('') === key)
+  )
+}
+
+export const personSnippet = (content: string, person: ExtractedPerson): string =>
+  snippetAround(content, person.name) ||
+  snippetAround(content, nameParts(person.name)?.last || person.name)
+
+const inferenceEvidence = (sighting: PersonSighting): Evidence => ({
+  url: sighting.url,
+  query: sighting.query,
+  snippet: sighting.snippet,
+  extractedAt: sighting.extractedAt,
+  stage: sighting.stage,
+  support: 'pattern'
+})
+
+// An address generated from a known format for the person the sightings name
+export const buildInferredResult = (
+  email: string,
+  pattern: DomainPattern,
+  sightings: PersonSighting[],
+  index: number = 0
+): EmailResult => {
+  const { person } = sightings[0]
+  const inference: PatternInference = {
+    pattern: pattern.pattern,
+    domain: pattern.domain,
+    support: pattern.support,
+    total: pattern.total
+  }
+  const { confidence, confidenceBreakdown } = buildConfidence([
+    {
+      key: 'inferred-pattern',
+      label: `Follows ${pattern.pattern} pattern`,
+      points: pattern.support >= 3 ? 15 : pattern.support === 2 ? 5 : -5,
+      detail: `${pattern.support} of ${pattern.total} known ${pattern.total === 1 ? 'address' : 'addresses'} at ${pattern.domain} use this format`
+    },
+    {
+      key: 'verbatim',
+      label: 'Not in source text',
+      points: -10,
+      detail: 'The person was named, but this address was generated, not found'
+    }
+  ])
+
+  return {
+    id: `inferred-${Date.now()}-${index}`,
+    email,
+    name: person.name,
+    company: person.company || pattern.company || 'Unknown',
+    title: person.title || 'Unknown',
+    confidence,
+    confidenceBreakdown,
+    source: 'Pattern inference',
+    evidence: sightings.map(inferenceEvidence),
+    support: 'pattern',
+    validation: validateEmail(email).validation,
+    emailType: classifyEmailType(email),
+    inference
+  }
+}
+
+// Builds addresses for people named without one, from their company's known
+// format. People who already have a found address are skipped.
+export const inferResults = (
+  people: PersonSighting[],
+  patterns: DomainPattern[],
+  existing: EmailResult[]
+): EmailResult[] => {
+  const taken = new Set(existing.map(result => canonicalEmail(result.email)))
+  const namesWithAddress = new Set(existing.map(result => result.name.toLowerCase()))
+  const byEmail = new Map<string, { pattern: DomainPattern; sightings: PersonSighting[] }>()
+
+  people.forEach(sighting => {
+    const { name, company } = sighting.person
+    if (namesWithAddress.has(name.toLowerCase())) return
+
+    const domainPattern = findDomainPattern(patterns, company)
+    const email = domainPattern && applyPattern(domainPattern.pattern, name, domainPattern.domain)
+    if (!domainPattern || !email || taken.has(canonicalEmail(email))) return
+
+    const entry = byEmail.get(email) || { pattern: domainPattern, sightings: [] }
+    entry.sightings.push(sighting)
+    byEmail.set(email, entry)
+  })
+
+  return Array.from(byEmail.entries()).map(([email, { pattern, sightings }], index) =>
+    buildInferredResult(email, pattern, sightings, index)
+  )
+}
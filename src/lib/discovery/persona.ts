@@ -0,0 +1,86 @@
+import { z } from 'zod'
+
+export const SENIORITY_LEVELS = ['entry', 'senior', 'manager', 'director', 'vp', 'c-level', 'founder'] as const
+export type SeniorityLevel = (typeof SENIORITY_LEVELS)[number]
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  entry: 'Entry level',
+  senior: 'Senior individual contributor',
+  manager: 'Manager',
+  director: 'Director',
+  vp: 'VP',
+  'c-level': 'C-level',
+  founder: 'Founder / owner'
+}
+
+export const MAX_COMPANY_SIZE = 1_000_000
+
+const terms = z.array(z.string().trim().min(1)).default([])
+
+// The structured form of a persona; compiled into the text the prompts use
+export const personaSpecSchema = z.object({
+  jobTitles: terms,
+  seniority: z.array(z.enum(SENIORITY_LEVELS)).default([]),
+  departments: terms,
+  industries: terms,
+  // Employee headcount; either end may be open
+  companySize: z
+    .object({
+      min: z.number().int().min(1).max(MAX_COMPANY_SIZE).optional(),
+      max: z.number().int().min(1).max(MAX_COMPANY_SIZE).optional()
+    })
+    .default({})
+    .refine(({ min, max }) => min === undefined || max === undefined || min <= max, {
+      message: 'Minimum size is larger than the maximum'
+    }),
+  locations: terms,
+  technologies: terms,
+  exclusions: terms,
+  // Anything the fields don't cover
+  notes: z.string().trim().default('')
+})
+
+export type PersonaSpec = z.infer<typeof personaSpecSchema>
+
+export const EMPTY_PERSONA_SPEC: PersonaSpec = personaSpecSchema.parse({})
+
+// Splits "a, b; c" into terms, dropping blanks and repeats
+export const splitTerms = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,;\n]+/).map(term => term.trim()).filter(Boolean)))
+
+const list = (values: string[]) => values.join(', ')
+
+export const describeCompanySize = ({ min, max }: PersonaSpec['companySize']): string | null => {
+  if (min !== undefined && max !== undefined) return `${min}-${max} employees`
+  if (min !== undefined) return `${min}+ employees`
+  if (max !== undefined) return `up to ${max} employees`
+  return null
+}
+
+// One clause per filled field, so the prompt reads like a brief
+export const compilePersona = (spec: PersonaSpec): string =>
+  [
+    spec.jobTitles.length > 0 && `Job titles: ${list(spec.jobTitles)}`,
+    spec.seniority.length > 0 && `Seniority: ${list(spec.seniority.map(level => SENIORITY_LABELS[level]))}`,
+    spec.departments.length > 0 && `Departments: ${list(spec.departments)}`,
+    spec.industries.length > 0 && `Industries: ${list(spec.industries)}`,
+    describeCompanySize(spec.companySize) && `Company size: ${describeCompanySize(spec.companySize)}`,
+    spec.locations.length > 0 && `Located in: ${list(spec.locations)}`,
+    spec.technologies.length > 0 && `Uses: ${list(spec.technologies)}`,
+    spec.exclusions.length > 0 && `Exclude: ${list(spec.exclusions)}`,
+    spec.notes && spec.notes
+  ]
+    .filter((line): line is string => typeof line === 'string' && line.length > 0)
+    .join('; ')
+
+export const isEmptyPersonaSpec = (spec: PersonaSpec): boolean => compilePersona(spec).length === 0
+
+// Missing fields take their defaults; a malformed spec is dropped
+export const parsePersonaSpec = (value: unknown): PersonaSpec | undefined => {
+  const parsed = personaSpecSchema.safeParse(value)
+  if (!parsed.success) {
+    console.log('Ignoring malformed persona spec:', parsed.error.message)
+    return undefined
+  }
+  return parsed.data
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createAbortError } from './abort'
+import { AuthExpiredError, NetworkError } from './errors'
+import { runDiscovery } from './pipeline'
+import { buildQueryPlanPrompt } from './prompts'
+import type { DiscoveryEvent } from './progress'
+import type { DiscoveryCheckpoint, DiscoveryClient, SearchHit } from './types'
+
+const PERSONA = 'Partnership leads at B2B software companies'
+
+const hit = (snippet: string, link = 'https://acme.com/team'): SearchHit => ({ title: 'Acme team', link, snippet })
+
+// Every address in the text the prompt carries, skipping the format example
+const addressesIn = (prompt: string): string[] =>
+  Array.from(new Set(prompt.match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g) || [])).filter(
+    email => email !== 'actual.email@company.com'
+  )
+
+// "jane.doe@acme.com" is Jane Doe
+const nameFor = (email: string): string =>
+  email
+    .slice(0, email.indexOf('@'))
+    .split('.')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ')
+
+// Searches answer from hitsByQuery; the LLM plans the given queries and
+// returns every address in the text it was shown, plus any extra ones
+const fakeClient = (
+  hitsByQuery: Record<string, SearchHit[]>,
+  { plan = [], extra = [] }: { plan?: string[]; extra?: string[] } = {}
+): DiscoveryClient => ({
+  generateText: async ({ prompt }) =>
+    prompt === buildQueryPlanPrompt(PERSONA)
+      ? plan.join('\n')
+      : JSON.stringify({
+          emails: [...addressesIn(prompt), ...extra].map(email => ({ email, name: nameFor(email), company: 'Acme' }))
+        }),
+  search: async query => hitsByQuery[query] || [],
+  extractFromUrl: async () => ''
+})
+
+// Snippets only, so runs don't depend on page fetches
+const settings = { urlsPerQuery: 0 }
+
+const JANE = hit('Jane Doe leads partnerships at Acme. Reach her at jane.doe@acme.com for integration deals.')
+const JOHN = hit('John Roe runs channel sales at Acme and answers at john.roe@acme.com most days.')
+
+describe('runDiscovery', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('finds addresses in search snippets and counts each address once', async () => {
+    const client = fakeClient({ first: [JANE], second: [JANE, JOHN] })
+    const outcome = await runDiscovery(client, PERSONA, { queries: ['first', 'second'], settings })
+
+    expect(outcome.status).toBe('completed')
+    expect(outcome.results.map(result => result.email).sort()).toEqual(['jane.doe@acme.com', 'john.roe@acme.com'])
+    expect(outcome.results.every(result => result.support === 'verbatim')).toBe(true)
+    expect(outcome.verification).toEqual({ verbatim: 2, pattern: 0, unsupported: 0, dropped: 0 })
+  })
+
+  it('plans the queries with the LLM when none are given', async () => {
+    const client = fakeClient({ planned: [JANE] }, { plan: ['planned'] })
+    const search = vi.spyOn(client, 'search')
+    const outcome = await runDiscovery(client, PERSONA, { settings })
+
+    expect(outcome.queries).toEqual(['planned'])
+    expect(search).toHaveBeenCalledWith('planned', expect.anything())
+    expect(outcome.results.map(result => result.email)).toEqual(['jane.doe@acme.com'])
+  })
+
+  it('drops addresses nothing in the source backs up', async () => {
+    const client = fakeClient({ first: [JANE] }, { extra: ['ghost@elsewhere.io'] })
+    const outcome = await runDiscovery(client, PERSONA, { queries: ['first'], settings })
+
+    expect(outcome.results.map(result => result.email)).toEqual(['jane.doe@acme.com'])
+    expect(outcome.verification.dropped).toBe(1)
+
+    const flagged = await runDiscovery(client, PERSONA, { queries: ['first'], settings, unsupportedPolicy: 'flag' })
+    expect(flagged.results.find(result => result.email === 'ghost@elsewhere.io')?.support).toBe('unsupported')
+  })
+
+  it('records a failed query and carries on with the rest', async () => {
+    const client = fakeClient({ second: [JANE] })
+    vi.spyOn(client, 'search').mockImplementation(async query => {
+      if (query === 'first') throw new NetworkError('Offline')
+      return [JANE]
+    })
+    const outcome = await runDiscovery(client, PERSONA, { queries: ['first', 'second'], settings })
+
+    expect(outcome.status).toBe('completed')
+    expect(outcome.errors).toEqual([{ kind: 'network', message: 'Offline', query: 'first' }])
+    expect(outcome.results.map(result => result.email)).toEqual(['jane.doe@acme.com'])
+  })
+
+  it('stops on a failure every later call would hit too', async () => {
+    const client = fakeClient({})
+    vi.spyOn(client, 'search').mockRejectedValue(new AuthExpiredError('Signed out'))
+    const events: DiscoveryEvent[] = []
+
+    await expect(
+      runDiscovery(client, PERSONA, { queries: ['first', 'second'], settings, onProgress: event => events.push(event) })
+    ).rejects.toBeInstanceOf(AuthExpiredError)
+    expect(events).toContainEqual({ type: 'stage', stage: 'failed' })
+  })
+
+  it('returns a cancelled outcome whose checkpoint leaves the stopped query to run again', async () => {
+    const controller = new AbortController()
+    const client = fakeClient({ first: [JANE] })
+    vi.spyOn(client, 'search').mockImplementation(async query => {
+      if (query !== 'second') return [JANE]
+      controller.abort()
+      throw createAbortError()
+    })
+    const checkpoints: DiscoveryCheckpoint[] = []
+
+    const outcome = await runDiscovery(client, PERSONA, {
+      queries: ['first', 'second'],
+      settings,
+      signal: controller.signal,
+      onCheckpoint: checkpoint => checkpoints.push(checkpoint)
+    })
+
+    expect(outcome.status).toBe('cancelled')
+    expect(checkpoints[checkpoints.length - 1].doneQueries).not.toContain(1)
+  })
+
+  it('resumes from a checkpoint, running only the unfinished queries', async () => {
+    const client = fakeClient({ first: [JANE], second: [JOHN] })
+    const search = vi.spyOn(client, 'search')
+    const checkpoint: DiscoveryCheckpoint = {
+      queries: ['first', 'second'],
+      completedQueries: 1,
+      doneQueries: [0],
+      candidates: [],
+      people: [],
+      parseFailures: []
+    }
+
+    const outcome = await runDiscovery(client, PERSONA, { settings, checkpoint })
+
+    expect(search).toHaveBeenCalledTimes(1)
+    expect(search).toHaveBeenCalledWith('second', expect.anything())
+    expect(outcome.results.map(result => result.email)).toEqual(['john.roe@acme.com'])
+  })
+})
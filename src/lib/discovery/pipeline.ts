@@ -0,0 +1,531 @@
+import { buildPageExtractionPrompt, buildQueryPlanPrompt, buildSnippetExtractionPrompt } from './prompts'
+import type { DeliverabilityResult } from '../deliverability'
+import { isAbortError, throwIfAborted } from './abort'
+import { BadRequestError, ExtractionBlockedError, ParseFailedError, errorKind, isFatalError, type ErrorKind } from './errors'
+import { buildEvidence, contactSnippet } from './evidence'
+import { parseExtractionResponse, type ExtractionParseResult } from './parsing'
+import { classifyEmailType, type ProviderClassifier } from './providers'
+import { classifyRoleAccount } from './roles'
+import { canonicalEmail, emailAliases, groupSightings, mergeContacts } from './merge'
+import { inferResults, learnDomainPatterns, mergeDomainPatterns, personSnippet } from './patterns'
+import type { DiscoveryEvent } from './progress'
+import { scoreDeliverability, scoreEvidence, totalConfidence } from './scoring'
+import { DEFAULT_SEARCH_SETTINGS, QUERY_CONCURRENCY, normalizeSearchSettings, type SearchSettings } from './settings'
+import { isExtractableUrl, isOnDomain, urlSkipReason } from './urls'
+import { classifySupport, strongestSupport, verifyCandidates, type VerificationSummary } from './verification'
+import type {
+  Candidate,
+  DiscoveryClient,
+  DiscoveryOptions,
+  DiscoveryOutcome,
+  DiscoveryStatus,
+  EmailResult,
+  ExtractedContact,
+  ExtractionStage,
+  ParseFailure,
+  PersonSighting,
+  RunError,
+  SearchHit
+} from './types'
+
+// The prompt asks for 3-5 queries; when the user reviews the plan they see all of them
+export const MAX_PLANNED_QUERIES = 5
+
+// Stage 1: ask the LLM for search queries matching the persona
+export const planQueries = async (
+  client: DiscoveryClient,
+  persona: string,
+  signal?: AbortSignal,
+  limit: number = DEFAULT_SEARCH_SETTINGS.maxQueries
+): Promise<string[]> => {
+  const text = await client.generateText({
+    prompt: buildQueryPlanPrompt(persona),
+    maxTokens: 300,
+    signal
+  })
+
+  const queries = text
+    .split(/\r?\n/)
+    .map(query => query.trim())
+    .filter(Boolean)
+    .slice(0, limit)
+  if (queries.length === 0) {
+    throw new ParseFailedError('The query plan reply had no queries in it', { endpoint: 'generate' })
+  }
+  return queries
+}
+
+// Stage 2: run a single web search
+export const searchQuery = (
+  client: DiscoveryClient,
+  query: string,
+  signal?: AbortSignal,
+  limit: number = DEFAULT_SEARCH_SETTINGS.resultsPerSearch
+): Promise<SearchHit[]> => client.search(query.trim(), { limit, signal })
+
+// Flattens a search hit into the text the LLM sees
+export const summarizeHit = (hit: SearchHit): string =>
+  [
+    hit.title,
+    hit.snippet,
+    hit.displayedLink || '',
+    ...(hit.extensions || [])
+  ].filter(Boolean).join(' ')
+
+export interface UrlSelection {
+  selected: SearchHit[]
+  skipped: Array<{ hit: SearchHit; reason: string }>
+}
+
+// Stage 3: pick the search hits worth fetching in full, and say why the rest
+// aren't. Hits on preferDomain go first.
+export const selectUrls = (
+  hits: SearchHit[],
+  urlsPerQuery: number = DEFAULT_SEARCH_SETTINGS.urlsPerQuery,
+  preferDomain?: string
+): UrlSelection => {
+  const selection: UrlSelection = { selected: [], skipped: [] }
+  const ordered = preferDomain
+    ? [...hits].sort((a, b) => Number(isOnDomain(b.link, preferDomain)) - Number(isOnDomain(a.link, preferDomain)))
+    : hits
+
+  ordered.forEach(hit => {
+    const reason = urlSkipReason(hit.link)
+    if (reason) {
+      selection.skipped.push({ hit, reason })
+    } else if (selection.selected.length >= urlsPerQuery) {
+      selection.skipped.push({
+        hit,
+        reason: urlsPerQuery === 0
+          ? 'Page fetching is off for this search depth'
+          : `Only ${urlsPerQuery} ${urlsPerQuery === 1 ? 'page' : 'pages'} per query ${urlsPerQuery === 1 ? 'is' : 'are'} fetched`
+      })
+    } else {
+      selection.selected.push(hit)
+    }
+  })
+
+  return selection
+}
+
+// Fetches a page's text, throwing when it can't be read or is too short to use
+export const extractPageText = async (
+  client: DiscoveryClient,
+  url: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  // Validate URL first
+  if (!url || !isExtractableUrl(url)) {
+    throw new BadRequestError('URL not suitable for extraction', { endpoint: 'extract' })
+  }
+
+  // Retries, if any, happen in the client; a page this short won't get longer
+  const content = await client.extractFromUrl(url, { signal })
+  if (!content || content.trim().length < 20) {
+    throw new ExtractionBlockedError('Content too short or empty', { endpoint: 'extract' })
+  }
+
+  return content
+}
+
+export interface PageFetch {
+  content: string | null
+  usedFallback: boolean
+  // Why the page itself couldn't be read, when it couldn't
+  error?: string
+  errorKind?: ErrorKind
+}
+
+// Stage 4a: fetch a page, falling back to the search result text when it can't be read
+export const fetchPageContent = async (
+  client: DiscoveryClient,
+  hit: SearchHit,
+  signal?: AbortSignal
+): Promise<PageFetch> => {
+  let error: string | undefined
+  let kind: ErrorKind | undefined
+  try {
+    return { content: await extractPageText(client, hit.link, signal), usedFallback: false }
+  } catch (extractError: any) {
+    if (isAbortError(extractError) || isFatalError(extractError)) throw extractError
+    error = extractError?.message || 'Extraction failed'
+    kind = errorKind(extractError)
+  }
+
+  const fallbackContent = summarizeHit(hit)
+  if (fallbackContent.trim().length > 10) return { content: fallbackContent, usedFallback: true, error, errorKind: kind }
+
+  return { content: null, usedFallback: true, error, errorKind: kind }
+}
+
+// Stage 4b: ask the LLM to pull contacts out of some text
+export const extractContacts = async (
+  client: DiscoveryClient,
+  persona: string,
+  content: string,
+  stage: ExtractionStage,
+  signal?: AbortSignal,
+  settings: SearchSettings = DEFAULT_SEARCH_SETTINGS
+): Promise<string> => {
+  if (stage === 'search-results') {
+    return client.generateText({
+      prompt: buildSnippetExtractionPrompt(persona, content.substring(0, settings.snippetPromptChars)),
+      maxTokens: 600,
+      signal
+    })
+  }
+
+  return client.generateText({
+    prompt: buildPageExtractionPrompt(persona, content.substring(0, settings.pagePromptChars)),
+    maxTokens: 800,
+    signal
+  })
+}
+
+// Stage 5: turn the LLM's reply into validated contacts
+export const parseExtraction = (text: string): ExtractionParseResult => parseExtractionResponse(text)
+
+const sourceLabel = (sightings: Candidate[], contact: ExtractedContact): string => {
+  const page = sightings.find(candidate => candidate.stage === 'page-content')
+  if (!page) return 'Search Results'
+  return contact.source || (page.url?.includes('linkedin.com') ? 'LinkedIn' : 'Web Search')
+}
+
+export interface ScoreOptions {
+  roleAccounts?: string[]
+  providers?: ProviderClassifier
+}
+
+// Stage 6: merge sightings of the same mailbox (however it was spelled) into
+// one record with fields voted across all of them, and score the evidence
+export const scoreCandidates = (
+  candidates: Candidate[],
+  { roleAccounts = [], providers }: ScoreOptions = {}
+): EmailResult[] =>
+  Array.from(groupSightings(candidates).values()).map((sightings, index) => {
+    const contact = mergeContacts(sightings)
+    const { email } = contact
+    const confidenceBreakdown = scoreEvidence(email, sightings, roleAccounts)
+    const aliases = emailAliases(email, sightings)
+
+    return {
+      id: `email-${Date.now()}-${index}`,
+      email,
+      name: contact.name || 'Unknown',
+      company: contact.company || 'Unknown',
+      title: contact.title || 'Unknown',
+      confidence: totalConfidence(confidenceBreakdown),
+      confidenceBreakdown,
+      source: sourceLabel(sightings, contact),
+      evidence: sightings.map(buildEvidence),
+      support: strongestSupport(sightings.map(candidate => candidate.support)),
+      roleAccount: classifyRoleAccount(email, roleAccounts) || undefined,
+      emailType: providers ? providers.classify(email) : classifyEmailType(email),
+      validation: contact.validation,
+      aliases: aliases.length > 0 ? aliases : undefined
+    }
+  })
+
+// Stage 7: keep the best record per mailbox, rank by confidence and limit results
+export const dedupeResults = (
+  results: EmailResult[],
+  maxResults: number = DEFAULT_SEARCH_SETTINGS.maxResults
+): EmailResult[] => {
+  const seen = new Set<string>()
+  return [...results]
+    .sort((a, b) => b.confidence - a.confidence)
+    .filter(result => {
+      const key = canonicalEmail(result.email)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .slice(0, maxResults)
+}
+
+// Stage 8: fold a deliverability check into a result and its score
+export const withDeliverability = (result: EmailResult, deliverability: DeliverabilityResult): EmailResult => {
+  const confidenceBreakdown = {
+    ...result.confidenceBreakdown,
+    factors: [
+      ...result.confidenceBreakdown.factors.filter(factor => factor.key !== 'deliverability'),
+      scoreDeliverability(deliverability)
+    ]
+  }
+  return { ...result, deliverability, confidenceBreakdown, confidence: totalConfidence(confidenceBreakdown) }
+}
+
+// State for a single run. Each query collects into its own copy, merged in
+// when the query ends, so a checkpoint never holds half a query.
+interface RunContext {
+  client: DiscoveryClient
+  persona: string
+  options: DiscoveryOptions
+  settings: SearchSettings
+  candidates: Candidate[]
+  people: PersonSighting[]
+  parseFailures: ParseFailure[]
+  errors: RunError[]
+  emit: (event: DiscoveryEvent) => void
+}
+
+// Stages 5-7 over everything collected so far, plus addresses inferred for
+// named people from the formats known or learned so far
+const finalize = (context: RunContext): { results: EmailResult[]; verification: VerificationSummary } => {
+  const verified = verifyCandidates(context.candidates, context.options.unsupportedPolicy)
+  const found = scoreCandidates(verified.candidates, context.options)
+  const known = context.options.patterns || []
+  const patterns = mergeDomainPatterns(known, learnDomainPatterns(found, known))
+  const inferred = inferResults(context.people, patterns, found)
+  const { resultFilter } = context.options
+  const kept = resultFilter ? [...found, ...inferred].filter(resultFilter) : [...found, ...inferred]
+
+  return {
+    results: dedupeResults(kept, context.settings.maxResults),
+    verification: verified.summary
+  }
+}
+
+const extractInto = async (
+  context: RunContext,
+  content: string,
+  stage: ExtractionStage,
+  query: string,
+  url?: string
+): Promise<number> => {
+  const { client, persona, options, settings, candidates, people, parseFailures, errors } = context
+  const text = await extractContacts(client, persona, content, stage, options.signal, settings)
+  const { contacts, people: named, issues } = parseExtraction(text)
+  const extractedAt = new Date().toISOString()
+
+  issues.forEach(issue => {
+    parseFailures.push({ ...issue, stage, query, url })
+    // Rejected addresses are expected noise; a reply we couldn't read is a failure
+    if (issue.kind !== 'invalid-email') errors.push({ kind: 'parse-failed', message: issue.message, query, url })
+  })
+  contacts.forEach(contact => {
+    candidates.push({
+      contact,
+      stage,
+      query,
+      url,
+      snippet: contactSnippet(content, contact),
+      extractedAt,
+      support: classifySupport(contact, content)
+    })
+  })
+  named.forEach(person => people.push({ person, stage, query, url, snippet: personSnippet(content, person), extractedAt }))
+
+  return contacts.length
+}
+
+// Checks each result in turn, streaming them as they are checked. Aborting
+// keeps what was checked so far and leaves the rest unchecked.
+const checkDeliverability = async (
+  context: RunContext,
+  results: EmailResult[]
+): Promise<{ results: EmailResult[]; cancelled: boolean }> => {
+  const { deliverability, signal } = context.options
+  if (!deliverability || results.length === 0) return { results, cancelled: false }
+
+  context.emit({ type: 'stage', stage: 'checking' })
+  const checked = [...results]
+  for (let i = 0; i < checked.length; i++) {
+    try {
+      checked[i] = withDeliverability(checked[i], await deliverability.verify(checked[i].email, signal))
+      context.emit({ type: 'results', results: [...checked] })
+    } catch (error) {
+      if (isAbortError(error)) return { results: checked, cancelled: true }
+      console.log('Deliverability check failed for', checked[i].email, error)
+    }
+  }
+
+  return { results: checked.sort((a, b) => b.confidence - a.confidence), cancelled: false }
+}
+
+const collectFromQuery = async (context: RunContext, query: string): Promise<void> => {
+  const { client, options, settings, errors, emit } = context
+  const { signal } = options
+  const hits = await searchQuery(client, query, signal, settings.resultsPerSearch)
+  emit({ type: 'query', query, status: 'running', hitCount: hits.length })
+
+  // First, try to extract emails directly from search results
+  const searchResultsContent = hits.map(summarizeHit).join(' ')
+  if (searchResultsContent.length > 50) {
+    try {
+      await extractInto(context, searchResultsContent, 'search-results', query)
+    } catch (directError: any) {
+      if (isAbortError(directError) || isFatalError(directError)) throw directError
+      errors.push({ kind: errorKind(directError), message: directError?.message || 'Extraction failed', query })
+    }
+  }
+
+  // Then extract content from promising URLs, side by side; the client's
+  // scheduler decides how many actually run at once
+  const { selected, skipped } = selectUrls(hits, settings.urlsPerQuery, options.preferDomain)
+  skipped.forEach(({ hit, reason }) => emit({ type: 'url', query, url: hit.link, status: 'skipped', detail: reason }))
+  selected.forEach(hit => emit({ type: 'url', query, url: hit.link, status: 'pending' }))
+
+  await Promise.all(selected.map(async hit => {
+    try {
+      emit({ type: 'url', query, url: hit.link, status: 'running' })
+
+      const page = await fetchPageContent(client, hit, signal)
+      if (page.error) errors.push({ kind: page.errorKind || 'unknown', message: page.error, query, url: hit.link })
+      if (!page.content || page.content.trim().length < 10) {
+        emit({ type: 'url', query, url: hit.link, status: 'failed', detail: page.error || 'No usable content' })
+        return
+      }
+
+      const found = await extractInto(context, page.content, 'page-content', query, hit.link)
+      const detail = page.usedFallback
+        ? `Page unreadable (${page.error}); used search snippet, ${found} found`
+        : `${found} found`
+      emit({ type: 'url', query, url: hit.link, status: 'ok', detail })
+    } catch (extractError: any) {
+      if (isAbortError(extractError) || isFatalError(extractError)) throw extractError
+      errors.push({ kind: errorKind(extractError), message: extractError?.message || 'Processing failed', query, url: hit.link })
+      emit({ type: 'url', query, url: hit.link, status: 'failed', detail: extractError?.message || 'Processing failed' })
+    }
+  }))
+}
+
+// Runs the full discovery pipeline for a persona. Failures inside a single
+// query are skipped and listed in the outcome's errors; a failure to
+// plan queries, a used-up quota or an expired session is thrown.
+// Passing options.queries skips planning and runs exactly those queries.
+// Aborting options.signal ends the run early with status "cancelled" and
+// whatever results were collected up to that point. options.settings controls
+// how deep the run goes; omitted fields fall back to the Standard preset.
+// With options.deliverability, each final result's mailbox is checked last.
+// Queries run a few at a time. Passing options.checkpoint runs only the
+// queries it doesn't record as finished.
+export const runDiscovery = async (
+  client: DiscoveryClient,
+  persona: string,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryOutcome> => {
+  const { signal, onProgress, checkpoint, onCheckpoint } = options
+  const context: RunContext = {
+    client,
+    persona,
+    options,
+    settings: normalizeSearchSettings(options.settings),
+    candidates: checkpoint ? [...checkpoint.candidates] : [],
+    people: checkpoint ? [...checkpoint.people] : [],
+    parseFailures: checkpoint ? [...checkpoint.parseFailures] : [],
+    errors: [...(checkpoint?.errors || [])],
+    emit: event => onProgress?.(event)
+  }
+  const { emit, settings } = context
+  let queries: string[] = checkpoint?.queries ?? []
+  const done = new Set(
+    checkpoint?.doneQueries ?? Array.from({ length: checkpoint?.completedQueries ?? 0 }, (_, index) => index)
+  )
+  let status: DiscoveryStatus = 'completed'
+
+  const saveCheckpoint = () =>
+    onCheckpoint?.({
+      queries,
+      completedQueries: done.size,
+      doneQueries: Array.from(done).sort((a, b) => a - b),
+      candidates: [...context.candidates],
+      people: [...context.people],
+      parseFailures: [...context.parseFailures],
+      errors: [...context.errors]
+    })
+
+  try {
+    emit({ type: 'stage', stage: 'planning' })
+    if (!checkpoint) {
+      queries = options.queries?.length ? options.queries : await planQueries(client, persona, signal, settings.maxQueries)
+      saveCheckpoint()
+    }
+    emit({ type: 'queries-planned', queries })
+    queries.forEach((query, index) => done.has(index) && emit({ type: 'query', query, status: 'ok' }))
+    emit({ type: 'stage', stage: 'searching' })
+
+    // Throws only on an abort or a fatal error; anything else fails just this query
+    const runQuery = async (index: number) => {
+      const query = queries[index]
+      const collected: RunContext = { ...context, candidates: [], people: [], parseFailures: [], errors: [] }
+      let finished = false
+      try {
+        throwIfAborted(signal)
+        emit({ type: 'query', query, status: 'running' })
+        await collectFromQuery(collected, query)
+        emit({ type: 'query', query, status: 'ok' })
+        finished = true
+      } catch (searchError: any) {
+        if (isAbortError(searchError) || isFatalError(searchError)) throw searchError
+        collected.errors.push({ kind: errorKind(searchError), message: searchError?.message || 'Search failed', query })
+        emit({ type: 'query', query, status: 'failed', error: searchError?.message || 'Search failed' })
+        finished = true
+      } finally {
+        // A stopped query's finds still count towards this run's results,
+        // but only a finished query is skipped on resume
+        context.candidates.push(...collected.candidates)
+        context.people.push(...collected.people)
+        context.parseFailures.push(...collected.parseFailures)
+        context.errors.push(...collected.errors)
+        if (finished) {
+          done.add(index)
+          saveCheckpoint()
+          // Stream what we have so far into the results list
+          emit({ type: 'results', results: finalize(context).results })
+        }
+      }
+    }
+
+    const pending = queries.map((_, index) => index).filter(index => !done.has(index))
+    let next = 0
+    let stopError: unknown
+    const worker = async () => {
+      while (next < pending.length && stopError === undefined) {
+        try {
+          await runQuery(pending[next++])
+        } catch (error) {
+          stopError ??= error
+        }
+      }
+    }
+    // Queries already running finish before the error is passed on, so
+    // nothing is added to the run after it ends
+    await Promise.all(Array.from({ length: Math.min(QUERY_CONCURRENCY, pending.length) }, worker))
+    if (stopError !== undefined) throw stopError
+  } catch (error) {
+    if (!isAbortError(error)) {
+      emit({ type: 'stage', stage: 'failed' })
+      throw error
+    }
+    console.log('Discovery cancelled with', context.candidates.length, 'candidates collected')
+    status = 'cancelled'
+  }
+
+  emit({ type: 'stage', stage: 'verifying' })
+  const finalized = finalize(context)
+  const { verification } = finalized
+  let { results } = finalized
+  emit({ type: 'results', results })
+
+  if (status === 'completed') {
+    const checked = await checkDeliverability(context, results)
+    results = checked.results
+    if (checked.cancelled) status = 'cancelled'
+    emit({ type: 'results', results })
+  }
+  emit({ type: 'stage', stage: status === 'cancelled' ? 'cancelled' : 'done' })
+
+  return {
+    status,
+    queries,
+    candidates: context.candidates,
+    results,
+    verification,
+    parseFailures: context.parseFailures,
+    errors: context.errors,
+    people: context.people,
+    // Learned after the deliverability check so bouncing addresses don't count
+    patterns: learnDomainPatterns(results, options.patterns || [])
+  }
+}
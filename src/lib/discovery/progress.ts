@@ -0,0 +1,98 @@
+import type { EmailResult } from './types'
+
+export type PipelineStage = 'planning' | 'searching' | 'verifying' | 'checking' | 'done' | 'cancelled' | 'failed'
+
+export type QueryStatus = 'pending' | 'running' | 'ok' | 'failed'
+
+export type UrlStatus = 'pending' | 'running' | 'ok' | 'skipped' | 'failed'
+
+export interface UrlProgress {
+  url: string
+  status: UrlStatus
+  // Why a URL was skipped or failed, or a note such as "used search snippet"
+  detail?: string
+}
+
+export interface QueryProgress {
+  query: string
+  status: QueryStatus
+  hitCount?: number
+  error?: string
+  urls: UrlProgress[]
+}
+
+export interface DiscoveryProgress {
+  stage: PipelineStage
+  startedAt: number
+  finishedAt?: number
+  queries: QueryProgress[]
+  resultCount: number
+}
+
+export type DiscoveryEvent =
+  | { type: 'stage'; stage: PipelineStage }
+  | { type: 'queries-planned'; queries: string[] }
+  | { type: 'query'; query: string; status: QueryStatus; hitCount?: number; error?: string }
+  | { type: 'url'; query: string; url: string; status: UrlStatus; detail?: string }
+  | { type: 'results'; results: EmailResult[] }
+
+export const createProgress = (startedAt: number = Date.now()): DiscoveryProgress => ({
+  stage: 'planning',
+  startedAt,
+  queries: [],
+  resultCount: 0
+})
+
+const updateQuery = (
+  progress: DiscoveryProgress,
+  query: string,
+  update: (entry: QueryProgress) => QueryProgress
+): DiscoveryProgress => ({
+  ...progress,
+  queries: progress.queries.map(entry => (entry.query === query ? update(entry) : entry))
+})
+
+// Reducer that folds pipeline events into a snapshot the UI can render
+export const applyProgressEvent = (progress: DiscoveryProgress, event: DiscoveryEvent): DiscoveryProgress => {
+  switch (event.type) {
+    case 'stage': {
+      const finished = event.stage === 'done' || event.stage === 'cancelled' || event.stage === 'failed'
+      return { ...progress, stage: event.stage, finishedAt: finished ? Date.now() : undefined }
+    }
+    case 'queries-planned':
+      return {
+        ...progress,
+        queries: event.queries.map(query => ({ query, status: 'pending', urls: [] }))
+      }
+    case 'query':
+      return updateQuery(progress, event.query, entry => ({
+        ...entry,
+        status: event.status,
+        hitCount: event.hitCount ?? entry.hitCount,
+        error: event.error
+      }))
+    case 'url':
+      return updateQuery(progress, event.query, entry => {
+        const next: UrlProgress = { url: event.url, status: event.status, detail: event.detail }
+        const exists = entry.urls.some(url => url.url === event.url)
+        return {
+          ...entry,
+          urls: exists
+            ? entry.urls.map(url => (url.url === event.url ? next : url))
+            : [...entry.urls, next]
+        }
+      })
+    case 'results':
+      return { ...progress, resultCount: event.results.length }
+  }
+}
+
+// Rough completion for a progress bar: planning is the first tenth, each
+// query an equal share of the rest
+export const progressPercent = (progress: DiscoveryProgress): number => {
+  if (progress.finishedAt) return 100
+  if (progress.stage === 'planning' || progress.queries.length === 0) return 5
+
+  const settled = progress.queries.filter(query => query.status === 'ok' || query.status === 'failed').length
+  return Math.round(10 + (settled / progress.queries.length) * 85)
+}
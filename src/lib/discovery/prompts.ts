@@ -0,0 +1,52 @@
+export const buildQueryPlanPrompt = (persona: string): string => `Based on this persona: "${persona}"
+
+Generate 3-5 specific search queries to find real people and their email addresses. Focus on:
+- LinkedIn profiles with contact info
+- Company directory pages
+- Professional bios with email addresses
+- Industry association member lists
+- Conference speaker lists
+
+Return only the search queries, one per line, without quotes or numbering.
+Example:
+"marketing manager" SaaS company email contact
+LinkedIn "marketing director" B2B software email
+"head of marketing" startup contact information`
+
+export const buildSnippetExtractionPrompt = (persona: string, content: string): string => `Extract real email addresses and contact information from these search results that match the persona: "${persona}"
+
+Search Results: ${content}
+
+Find actual email addresses (not generic ones like info@, contact@, support@) and return in this JSON format:
+{
+  "emails": [
+    {
+      "email": "actual.email@company.com",
+      "name": "Full Name",
+      "company": "Company Name",
+      "title": "Job Title",
+      "source": "Search Results"
+    }
+  ]
+}
+
+Only include emails that clearly belong to real people who match the persona. If a matching person is named but no address is shown, include them with "email": null. If no relevant people found, return {"emails": []}.`
+
+export const buildPageExtractionPrompt = (persona: string, content: string): string => `Extract real email addresses and contact information from this webpage content that matches the persona: "${persona}"
+
+Content: ${content}
+
+Find actual email addresses (not generic ones like info@, contact@, support@) and return in this JSON format:
+{
+  "emails": [
+    {
+      "email": "actual.email@company.com",
+      "name": "Full Name",
+      "company": "Company Name",
+      "title": "Job Title",
+      "source": "LinkedIn/Website/Directory"
+    }
+  ]
+}
+
+Only include emails that clearly belong to real people who match the persona. If a matching person is named but no address is shown, include them with "email": null. If no relevant people found, return {"emails": []}.`
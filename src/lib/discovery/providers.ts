@@ -0,0 +1,51 @@
+import bundledProviders from './data/emailProviders.json'
+
+// corporate: a company's own domain; free: personal webmail such as gmail;
+// disposable: throwaway inboxes that expire
+export type EmailType = 'corporate' | 'free' | 'disposable'
+
+export interface ProviderDataset {
+  version: number
+  updatedAt: string
+  freeMail: string[]
+  disposable: string[]
+}
+
+// Shipped with the app; update data/emailProviders.json and bump its version
+export const BUNDLED_PROVIDERS: ProviderDataset = bundledProviders
+
+// Folds a newer or custom list into the bundled one; entries are additive
+export const mergeProviderDatasets = (base: ProviderDataset, update: Partial<ProviderDataset>): ProviderDataset => ({
+  version: Math.max(base.version, update.version ?? 0),
+  updatedAt: update.updatedAt && update.updatedAt > base.updatedAt ? update.updatedAt : base.updatedAt,
+  freeMail: Array.from(new Set([...base.freeMail, ...(update.freeMail || [])].map(domain => domain.toLowerCase()))),
+  disposable: Array.from(new Set([...base.disposable, ...(update.disposable || [])].map(domain => domain.toLowerCase())))
+})
+
+export interface ProviderClassifier {
+  classify(email: string): EmailType
+}
+
+// Matches the domain and each parent, so mail.yopmail.com counts as yopmail.com
+const domainAndParents = (domain: string): string[] => {
+  const labels = domain.split('.')
+  return labels.slice(0, -1).map((_, index) => labels.slice(index).join('.'))
+}
+
+export const createProviderClassifier = (dataset: ProviderDataset = BUNDLED_PROVIDERS): ProviderClassifier => {
+  const free = new Set(dataset.freeMail)
+  const disposable = new Set(dataset.disposable)
+
+  return {
+    classify: email => {
+      const candidates = domainAndParents(email.slice(email.lastIndexOf('@') + 1).toLowerCase())
+      if (candidates.some(domain => disposable.has(domain))) return 'disposable'
+      if (candidates.some(domain => free.has(domain))) return 'free'
+      return 'corporate'
+    }
+  }
+}
+
+const bundledClassifier = createProviderClassifier()
+
+export const classifyEmailType = (email: string): EmailType => bundledClassifier.classify(email)
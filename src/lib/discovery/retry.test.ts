@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createAbortError } from './abort'
+import { BadRequestError, NetworkError, RequestTimeoutError, type ErrorKind } from './errors'
+import { RETRY_POLICY, createRetryingClient, retryWithBackoff, type RetryRule } from './retry'
+import type { DiscoveryClient } from './types'
+
+// The default policy's retry counts without its delays
+const INSTANT_POLICY = Object.fromEntries(
+  Object.entries(RETRY_POLICY).map(([kind, rule]) => [kind, { ...rule, baseDelayMs: 0 }])
+) as Record<ErrorKind, RetryRule>
+
+describe('retryWithBackoff', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('retries network failures up to the policy and then gives up', async () => {
+    const fn = vi.fn(() => Promise.reject(new NetworkError('Offline')))
+    await expect(retryWithBackoff(fn, undefined, INSTANT_POLICY)).rejects.toBeInstanceOf(NetworkError)
+    expect(fn).toHaveBeenCalledTimes(1 + RETRY_POLICY.network.retries)
+  })
+
+  it('returns the first success', async () => {
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new RequestTimeoutError('Timed out'))
+      .mockResolvedValueOnce('ok')
+    await expect(retryWithBackoff(fn, undefined, INSTANT_POLICY)).resolves.toBe('ok')
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+
+  it("doesn't retry failures that would fail the same way again", async () => {
+    const fn = vi.fn(() => Promise.reject(new BadRequestError('Invalid query')))
+    await expect(retryWithBackoff(fn, undefined, INSTANT_POLICY)).rejects.toBeInstanceOf(BadRequestError)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('never retries a cancelled call', async () => {
+    const fn = vi.fn(() => Promise.reject(createAbortError()))
+    await expect(retryWithBackoff(fn, undefined, INSTANT_POLICY)).rejects.toMatchObject({ name: 'AbortError' })
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('doubles the delay for each retry', async () => {
+    vi.useFakeTimers()
+    const fn = vi.fn(() => Promise.reject(new NetworkError('Offline')))
+    const call = retryWithBackoff(fn)
+    call.catch(() => undefined)
+
+    await vi.advanceTimersByTimeAsync(RETRY_POLICY.network.baseDelayMs)
+    expect(fn).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(RETRY_POLICY.network.baseDelayMs * 2 - 1)
+    expect(fn).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(call).rejects.toBeInstanceOf(NetworkError)
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+
+  it('stops waiting to retry when the signal fires', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const fn = vi.fn(() => Promise.reject(new NetworkError('Offline')))
+    const call = retryWithBackoff(fn, controller.signal)
+    call.catch(() => undefined)
+
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+    await expect(call).rejects.toMatchObject({ name: 'AbortError' })
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('createRetryingClient', () => {
+  it('retries each endpoint by the policy', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    const search = vi
+      .fn<DiscoveryClient['search']>()
+      .mockRejectedValueOnce(new NetworkError('Offline'))
+      .mockResolvedValueOnce([])
+    const client = createRetryingClient(
+      { generateText: () => Promise.resolve(''), search, extractFromUrl: () => Promise.resolve('') },
+      INSTANT_POLICY
+    )
+
+    await expect(client.search('q')).resolves.toEqual([])
+    expect(search).toHaveBeenCalledTimes(2)
+    vi.restoreAllMocks()
+  })
+})
@@ -0,0 +1,80 @@
+import { createAbortError, isAbortError } from './abort'
+import { errorKind, type ErrorKind } from './errors'
+import type { DiscoveryClient } from './types'
+
+// Resolves after ms, or rejects early with an AbortError when the signal fires
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+export interface RetryRule {
+  // Further attempts after the first failure
+  retries: number
+  // Wait before the first retry, doubled for each one after
+  baseDelayMs: number
+}
+
+const NO_RETRY: RetryRule = { retries: 0, baseDelayMs: 0 }
+
+// How each kind of failure is retried. Rate limits are already retried by the
+// scheduler, which knows the Retry-After; the other kinds without retries
+// would fail the same way again.
+export const RETRY_POLICY: Record<ErrorKind, RetryRule> = {
+  'rate-limited': NO_RETRY,
+  'quota-exceeded': NO_RETRY,
+  'bad-request': NO_RETRY,
+  network: { retries: 2, baseDelayMs: 1000 },
+  'extraction-blocked': NO_RETRY,
+  'parse-failed': NO_RETRY,
+  timeout: { retries: 1, baseDelayMs: 2000 },
+  'auth-expired': NO_RETRY,
+  unknown: { retries: 1, baseDelayMs: 2000 }
+}
+
+// Retries fn by the policy for whatever kind of error it fails with
+export const retryWithBackoff = async <T,>(
+  fn: () => Promise<T>,
+  signal?: AbortSignal,
+  policy: Record<ErrorKind, RetryRule> = RETRY_POLICY
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      // A cancelled search is never retried
+      if (isAbortError(error)) throw error
+
+      const kind = errorKind(error)
+      const { retries, baseDelayMs } = policy[kind]
+      if (attempt >= retries) throw error
+
+      const delay = baseDelayMs * Math.pow(2, attempt)
+      console.log(`Attempt ${attempt + 1} failed (${kind}); retrying in ${delay}ms`)
+      await sleep(delay, signal)
+    }
+  }
+}
+
+// Retries every call a client makes by the policy
+export const createRetryingClient = (
+  client: DiscoveryClient,
+  policy: Record<ErrorKind, RetryRule> = RETRY_POLICY
+): DiscoveryClient => ({
+  generateText: options => retryWithBackoff(() => client.generateText(options), options.signal, policy),
+  search: (query, options) => retryWithBackoff(() => client.search(query, options), options?.signal, policy),
+  extractFromUrl: (url, options) => retryWithBackoff(() => client.extractFromUrl(url, options), options?.signal, policy)
+})
@@ -0,0 +1,83 @@
+// Shared mailboxes that reach a team or a process rather than a person
+export const DEFAULT_ROLE_ACCOUNTS = [
+  'info',
+  'contact',
+  'contactus',
+  'support',
+  'help',
+  'helpdesk',
+  'sales',
+  'hello',
+  'hi',
+  'admin',
+  'administrator',
+  'office',
+  'team',
+  'marketing',
+  'noreply',
+  'no-reply',
+  'donotreply',
+  'do-not-reply',
+  'careers',
+  'jobs',
+  'hr',
+  'recruiting',
+  'press',
+  'media',
+  'pr',
+  'billing',
+  'accounts',
+  'finance',
+  'invoices',
+  'legal',
+  'privacy',
+  'security',
+  'abuse',
+  'postmaster',
+  'hostmaster',
+  'webmaster',
+  'enquiries',
+  'inquiries',
+  'partners',
+  'partnerships',
+  'feedback',
+  'service',
+  'customerservice',
+  'orders',
+  'events',
+  'newsletter',
+  'mail',
+  'general',
+  'reception'
+]
+
+// Trims and lowercases a user-supplied list, dropping blanks, "@" and duplicates
+export const normalizeRoleAccounts = (accounts: string[]): string[] =>
+  Array.from(
+    new Set(
+      accounts
+        .map(account => account.trim().toLowerCase().replace(/@.*$/, ''))
+        .filter(Boolean)
+    )
+  )
+
+// Shorter role names ("hr", "pr", "hi", "jobs", "team") are also first names
+// and initials, as in "hi.nguyen@" or "pr.sharma@", so they only count as the
+// whole local part
+const MIN_PREFIX_ROLE_LENGTH = 5
+
+// Returns the role an address belongs to, or null for a personal mailbox.
+// "sales@", "sales.emea@" and "sales-team2@" all count as sales; "hr@" and
+// "hr2@" count as hr but "hr.lee@" doesn't. The extra list adds
+// company-specific names on top of the defaults.
+export const classifyRoleAccount = (email: string, extra: string[] = []): string | null => {
+  const localPart = email.slice(0, email.lastIndexOf('@')).toLowerCase().split('+')[0]
+  const roles = [...DEFAULT_ROLE_ACCOUNTS, ...normalizeRoleAccounts(extra)]
+
+  if (roles.includes(localPart)) return localPart
+  const bare = localPart.replace(/\d+$/, '')
+  if (roles.includes(bare)) return bare
+
+  const firstToken = localPart.split(/[._-]/)[0].replace(/\d+$/, '')
+  return firstToken.length >= MIN_PREFIX_ROLE_LENGTH && roles.includes(firstToken) ? firstToken : null
+}
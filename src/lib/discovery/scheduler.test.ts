@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { QuotaExceededError, RateLimitedError } from './errors'
+import { DEFAULT_SCHEDULER_CONFIG, createRequestScheduler, type EndpointLimits } from './scheduler'
+
+// A task the test settles by hand
+const deferred = () => {
+  let resolve!: (value: string) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<string>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+// A scheduler with the search endpoint's limits overridden
+const schedulerWith = (search: Partial<EndpointLimits>) =>
+  createRequestScheduler({
+    endpoints: { ...DEFAULT_SCHEDULER_CONFIG.endpoints, search: { ...DEFAULT_SCHEDULER_CONFIG.endpoints.search, ...search } }
+  })
+
+describe('createRequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it("holds calls beyond the endpoint's concurrency until a slot frees up", async () => {
+    const scheduler = schedulerWith({ concurrency: 1, burst: 5, perMinute: 600 })
+    const first = deferred()
+    const second = vi.fn(() => Promise.resolve('second'))
+
+    const firstCall = scheduler.schedule('search', () => first.promise)
+    const secondCall = scheduler.schedule('search', second)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(second).not.toHaveBeenCalled()
+
+    first.resolve('first')
+    await expect(firstCall).resolves.toBe('first')
+    await expect(secondCall).resolves.toBe('second')
+  })
+
+  it('paces calls past the burst by the per-minute rate', async () => {
+    const scheduler = schedulerWith({ burst: 1, perMinute: 60 })
+    const second = vi.fn(() => Promise.resolve('second'))
+
+    await scheduler.schedule('search', () => Promise.resolve('first'))
+    const secondCall = scheduler.schedule('search', second)
+    await vi.advanceTimersByTimeAsync(999)
+    expect(second).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(secondCall).resolves.toBe('second')
+  })
+
+  it('waits out Retry-After after a 429 and runs the call again', async () => {
+    // Tokens refill only after the pause; a fast rate keeps that wait to 10ms
+    const scheduler = schedulerWith({ perMinute: 6000 })
+    const task = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new RateLimitedError('Too many requests', { status: 429, retryAfterMs: 5000 }))
+      .mockResolvedValueOnce('ok')
+
+    const call = scheduler.schedule('search', task)
+    await vi.advanceTimersByTimeAsync(4999)
+    expect(task).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(11)
+    await expect(call).resolves.toBe('ok')
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('counts queued calls against the hourly quota', async () => {
+    const scheduler = schedulerWith({ concurrency: 1, hourlyQuota: 2 })
+    const first = deferred()
+
+    const calls = [
+      scheduler.schedule('search', () => first.promise, { userId: 'u1' }),
+      scheduler.schedule('search', () => Promise.resolve('second'), { userId: 'u1' })
+    ]
+    await expect(scheduler.schedule('search', () => Promise.resolve('third'), { userId: 'u1' })).rejects.toBeInstanceOf(
+      QuotaExceededError
+    )
+    expect(scheduler.remainingQuota('u1').search).toBe(0)
+    // Another user's quota is separate
+    expect(scheduler.remainingQuota('u2').search).toBe(2)
+
+    first.resolve('first')
+    await expect(Promise.all(calls)).resolves.toEqual(['first', 'second'])
+  })
+
+  it('gives back the quota of a call cancelled before it started', async () => {
+    const scheduler = schedulerWith({ concurrency: 1, hourlyQuota: 2 })
+    const first = deferred()
+    const controller = new AbortController()
+
+    const running = scheduler.schedule('search', () => first.promise, { userId: 'u1' })
+    const queued = scheduler.schedule('search', () => Promise.resolve('never'), { userId: 'u1', signal: controller.signal })
+    controller.abort()
+
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' })
+    expect(scheduler.remainingQuota('u1').search).toBe(1)
+    first.resolve('first')
+    await running
+  })
+})
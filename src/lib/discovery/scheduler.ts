@@ -0,0 +1,290 @@
+import { createAbortError } from './abort'
+import { QuotaExceededError, errorKind, retryAfterMs } from './errors'
+import type { DiscoveryClient } from './types'
+
+// The SDK endpoints the pipeline calls, each limited separately
+export type SchedulerEndpoint = 'search' | 'extract' | 'generate'
+
+export interface EndpointLimits {
+  // Sustained rate, refilled continuously
+  perMinute: number
+  // Calls that may go out back to back after a quiet spell
+  burst: number
+  // Calls to this endpoint in flight at once
+  concurrency: number
+  // Calls one user may make in a rolling hour
+  hourlyQuota: number
+}
+
+export interface SchedulerConfig {
+  endpoints: Record<SchedulerEndpoint, EndpointLimits>
+  // Calls in flight across all endpoints
+  maxConcurrent: number
+  // Retries after a 429 before the error is passed on
+  maxRateLimitRetries: number
+  // Backoff after a 429 without Retry-After, doubled per retry up to maxBackoffMs
+  baseBackoffMs: number
+  maxBackoffMs: number
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  endpoints: {
+    search: { perMinute: 30, burst: 3, concurrency: 2, hourlyQuota: 600 },
+    extract: { perMinute: 40, burst: 4, concurrency: 3, hourlyQuota: 800 },
+    generate: { perMinute: 30, burst: 3, concurrency: 2, hourlyQuota: 600 }
+  },
+  maxConcurrent: 4,
+  maxRateLimitRetries: 3,
+  baseBackoffMs: 2000,
+  maxBackoffMs: 60000
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface ScheduleOptions {
+  signal?: AbortSignal
+  // Whose quota the call counts against; unattributed calls only share the rate limits
+  userId?: string
+}
+
+export interface RequestScheduler {
+  schedule<T>(endpoint: SchedulerEndpoint, task: () => Promise<T>, options?: ScheduleOptions): Promise<T>
+  // Calls the user has left this hour, per endpoint
+  remainingQuota(userId: string): Record<SchedulerEndpoint, number>
+}
+
+export const createQuotaError = (endpoint: SchedulerEndpoint, resetsAt: number): QuotaExceededError =>
+  new QuotaExceededError(
+    `Hourly ${endpoint} quota used up; it resets at ${new Date(resetsAt).toLocaleTimeString()}`,
+    { endpoint }
+  )
+
+export const isQuotaError = (error: unknown): boolean => errorKind(error) === 'quota-exceeded'
+
+export const isRateLimitError = (error: unknown): boolean => errorKind(error) === 'rate-limited'
+
+interface Bucket {
+  tokens: number
+  refilledAt: number
+  // No calls start before this, after a 429
+  pausedUntil: number
+  inFlight: number
+}
+
+interface Waiting {
+  endpoint: SchedulerEndpoint
+  task: () => Promise<unknown>
+  options: ScheduleOptions
+  attempt: number
+  // When the call was counted against its user's quota
+  reservedAt?: number
+  resolve: (value: unknown) => void
+  reject: (error: unknown) => void
+}
+
+// One scheduler is shared by every search and lookup in the app, so the
+// limits hold across concurrent runs. Calls wait in FIFO order; each starts
+// once its endpoint has a token, a free slot and no 429 backoff pending.
+// A 429 pauses that endpoint for Retry-After (or an exponential backoff) and
+// puts the call back at the head of the queue.
+export const createRequestScheduler = (
+  config: Partial<SchedulerConfig> = {},
+  now: () => number = Date.now
+): RequestScheduler => {
+  const settings: SchedulerConfig = {
+    ...DEFAULT_SCHEDULER_CONFIG,
+    ...config,
+    endpoints: { ...DEFAULT_SCHEDULER_CONFIG.endpoints, ...config.endpoints }
+  }
+  const buckets = {} as Record<SchedulerEndpoint, Bucket>
+  ;(Object.keys(settings.endpoints) as SchedulerEndpoint[]).forEach(endpoint => {
+    buckets[endpoint] = { tokens: settings.endpoints[endpoint].burst, refilledAt: now(), pausedUntil: 0, inFlight: 0 }
+  })
+  // Call start times per user and endpoint, within the last hour
+  const usage = new Map<string, number[]>()
+  const queue: Waiting[] = []
+  let inFlight = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const refill = (endpoint: SchedulerEndpoint, at: number) => {
+    const bucket = buckets[endpoint]
+    const { perMinute, burst } = settings.endpoints[endpoint]
+    bucket.tokens = Math.min(burst, bucket.tokens + ((at - bucket.refilledAt) * perMinute) / 60000)
+    bucket.refilledAt = at
+  }
+
+  const recentCalls = (userId: string, endpoint: SchedulerEndpoint, at: number): number[] => {
+    const key = `${userId}:${endpoint}`
+    const recent = (usage.get(key) || []).filter(time => at - time < HOUR_MS)
+    usage.set(key, recent)
+    return recent
+  }
+
+  // How long until this call could start, or 0 when it can start now;
+  // Infinity means it waits on a slot rather than the clock
+  const waitFor = (endpoint: SchedulerEndpoint, at: number): number => {
+    const bucket = buckets[endpoint]
+    if (bucket.pausedUntil > at) return bucket.pausedUntil - at
+    if (inFlight >= settings.maxConcurrent || bucket.inFlight >= settings.endpoints[endpoint].concurrency) return Infinity
+    refill(endpoint, at)
+    if (bucket.tokens >= 1) return 0
+    return Math.ceil(((1 - bucket.tokens) * 60000) / settings.endpoints[endpoint].perMinute)
+  }
+
+  const backoff = (waiting: Waiting, error: unknown, at: number) => {
+    const fallback = Math.min(settings.maxBackoffMs, settings.baseBackoffMs * Math.pow(2, waiting.attempt))
+    const delay = retryAfterMs(error, at) ?? fallback
+    const bucket = buckets[waiting.endpoint]
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, at + delay)
+    // Capacity builds up again only once the pause is over
+    bucket.tokens = 0
+    bucket.refilledAt = bucket.pausedUntil
+    console.log(`Rate limited on ${waiting.endpoint}; retrying in ${delay}ms`)
+  }
+
+  // Gives back the quota a call took when it was queued, if it never ran
+  const release = (waiting: Waiting) => {
+    const { endpoint, options, reservedAt } = waiting
+    if (!options.userId || reservedAt === undefined) return
+    const calls = usage.get(`${options.userId}:${endpoint}`) || []
+    const index = calls.indexOf(reservedAt)
+    if (index !== -1) calls.splice(index, 1)
+  }
+
+  const start = (waiting: Waiting) => {
+    const { endpoint, options } = waiting
+    buckets[endpoint].tokens -= 1
+    buckets[endpoint].inFlight++
+    inFlight++
+
+    waiting.task().then(
+      value => {
+        finish(endpoint)
+        waiting.resolve(value)
+      },
+      error => {
+        // The backoff is in place before the freed slot lets anything else start
+        const retry = isRateLimitError(error) && waiting.attempt < settings.maxRateLimitRetries && !options.signal?.aborted
+        if (retry) {
+          backoff(waiting, error, now())
+          waiting.attempt++
+          queue.unshift(waiting)
+        }
+        finish(endpoint)
+        if (!retry) waiting.reject(error)
+      }
+    )
+  }
+
+  const finish = (endpoint: SchedulerEndpoint) => {
+    buckets[endpoint].inFlight--
+    inFlight--
+    pump()
+  }
+
+  // Starts every call that may start now, then sleeps until the next one could
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    const at = now()
+    let nextWait = Infinity
+    // Endpoints already passed over this round, so later calls don't jump ahead
+    const blocked = new Set<SchedulerEndpoint>()
+
+    for (let i = 0; i < queue.length; i++) {
+      const waiting = queue[i]
+      if (blocked.has(waiting.endpoint)) continue
+      const wait = waitFor(waiting.endpoint, at)
+      if (wait === 0) {
+        queue.splice(i, 1)
+        i--
+        start(waiting)
+      } else {
+        blocked.add(waiting.endpoint)
+        nextWait = Math.min(nextWait, wait)
+      }
+    }
+
+    if (queue.length > 0 && Number.isFinite(nextWait)) {
+      timer = setTimeout(pump, nextWait)
+    }
+  }
+
+  const remainingQuota = (userId: string): Record<SchedulerEndpoint, number> => {
+    const at = now()
+    const remaining = {} as Record<SchedulerEndpoint, number>
+    ;(Object.keys(settings.endpoints) as SchedulerEndpoint[]).forEach(endpoint => {
+      remaining[endpoint] = Math.max(0, settings.endpoints[endpoint].hourlyQuota - recentCalls(userId, endpoint, at).length)
+    })
+    return remaining
+  }
+
+  return {
+    schedule: <T,>(endpoint: SchedulerEndpoint, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+      const { signal, userId } = options
+      if (signal?.aborted) return Promise.reject(createAbortError())
+
+      // The call counts against the quota as soon as it's queued, so a burst
+      // can't queue more calls than the quota has left
+      let reservedAt: number | undefined
+      if (userId) {
+        const at = now()
+        const recent = recentCalls(userId, endpoint, at)
+        if (recent.length >= settings.endpoints[endpoint].hourlyQuota) {
+          return Promise.reject(createQuotaError(endpoint, recent[0] + HOUR_MS))
+        }
+        recent.push(at)
+        reservedAt = at
+      }
+
+      return new Promise<T>((resolve, reject) => {
+        const waiting: Waiting = {
+          endpoint,
+          task,
+          options,
+          attempt: 0,
+          reservedAt,
+          resolve: value => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve(value as T)
+          },
+          reject: error => {
+            signal?.removeEventListener('abort', onAbort)
+            reject(error)
+          }
+        }
+        // A call still waiting for its turn leaves the queue; one in flight finishes on its own
+        const onAbort = () => {
+          const index = queue.indexOf(waiting)
+          if (index === -1) return
+          queue.splice(index, 1)
+          release(waiting)
+          reject(createAbortError())
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+        queue.push(waiting)
+        pump()
+      })
+    },
+
+    remainingQuota
+  }
+}
+
+// Routes every call a client makes through the scheduler
+export const createScheduledClient = (
+  client: DiscoveryClient,
+  scheduler: RequestScheduler,
+  getUserId: () => string | undefined = () => undefined
+): DiscoveryClient => ({
+  generateText: options =>
+    scheduler.schedule('generate', () => client.generateText(options), { signal: options.signal, userId: getUserId() }),
+
+  search: (query, options) =>
+    scheduler.schedule('search', () => client.search(query, options), { signal: options?.signal, userId: getUserId() }),
+
+  extractFromUrl: (url, options) =>
+    scheduler.schedule('extract', () => client.extractFromUrl(url, options), { signal: options?.signal, userId: getUserId() })
+})
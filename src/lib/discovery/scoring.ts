@@ -0,0 +1,152 @@
+import type { DeliverabilityResult } from '../deliverability'
+import { independentSources, mergeContacts } from './merge'
+import { classifyRoleAccount } from './roles'
+import { strongestSupport } from './verification'
+import type { Candidate, ConfidenceBreakdown, ConfidenceFactor } from './types'
+
+// Every result starts here and moves up or down with the evidence
+const BASE_SCORE = 30
+
+export const COMPANY_SUFFIXES = ['inc', 'llc', 'ltd', 'corp', 'corporation', 'co', 'company', 'gmbh', 'group', 'the']
+
+const tokenize = (value: string): string[] =>
+  value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+
+const splitEmail = (email: string): { localPart: string; domain: string } => {
+  const at = email.lastIndexOf('@')
+  return {
+    localPart: email.slice(0, at).toLowerCase(),
+    domain: email.slice(at + 1).toLowerCase()
+  }
+}
+
+const isKnown = (value?: string): value is string =>
+  !!value && value.trim().length > 0 && value.trim().toLowerCase() !== 'unknown'
+
+const scoreVerbatim = (candidates: Candidate[]): ConfidenceFactor => {
+  const support = strongestSupport(candidates.map(candidate => candidate.support))
+
+  if (support === 'verbatim') {
+    return { key: 'verbatim', label: 'Found in source text', points: 25, detail: 'The address appears word-for-word in the fetched text' }
+  }
+  if (support === 'pattern') {
+    return { key: 'verbatim', label: 'Inferred from pattern', points: 0, detail: 'The domain and name appear in the text, but not the address itself' }
+  }
+  return { key: 'verbatim', label: 'Not in source text', points: -15, detail: 'Nothing in the fetched text supports this address' }
+}
+
+const scoreDomainMatch = (domain: string, company?: string): ConfidenceFactor => {
+  if (!isKnown(company)) {
+    return { key: 'domain-match', label: 'Company unknown', points: 0, detail: 'No company to compare the domain against' }
+  }
+
+  const companyTokens = tokenize(company).filter(token => !COMPANY_SUFFIXES.includes(token))
+  const domainLabel = domain.split('.').slice(0, -1).join('')
+  const compactCompany = companyTokens.join('')
+
+  const matches = compactCompany.length > 0 && (
+    domainLabel.includes(compactCompany) ||
+    compactCompany.includes(domainLabel) ||
+    companyTokens.some(token => token.length >= 3 && domainLabel.includes(token))
+  )
+
+  return matches
+    ? { key: 'domain-match', label: 'Domain matches company', points: 15, detail: `${domain} matches ${company}` }
+    : { key: 'domain-match', label: 'Domain differs from company', points: -5, detail: `${domain} does not look like ${company}` }
+}
+
+const scoreNameMatch = (localPart: string, name?: string): ConfidenceFactor => {
+  if (!isKnown(name)) {
+    return { key: 'name-match', label: 'Name unknown', points: 0, detail: 'No name to compare the address against' }
+  }
+
+  const tokens = tokenize(name).filter(token => token.length > 1)
+  const compactLocal = localPart.replace(/[^a-z0-9]/g, '')
+  const first = tokens[0]
+  const last = tokens[tokens.length - 1]
+
+  if (tokens.length >= 2 && compactLocal.includes(first) && compactLocal.includes(last)) {
+    return { key: 'name-match', label: 'Full name in address', points: 20, detail: `${localPart} contains "${first}" and "${last}"` }
+  }
+
+  const initialPlusLast = tokens.length >= 2 && (
+    compactLocal === `${first[0]}${last}` || compactLocal === `${first}${last[0]}`
+  )
+  if (initialPlusLast || tokens.some(token => token.length >= 3 && compactLocal.includes(token))) {
+    return { key: 'name-match', label: 'Partial name in address', points: 10, detail: `${localPart} partly matches ${name}` }
+  }
+
+  return { key: 'name-match', label: 'Name not in address', points: -5, detail: `${localPart} does not resemble ${name}` }
+}
+
+const scoreSources = (candidates: Candidate[]): ConfidenceFactor => {
+  const sources = independentSources(candidates)
+  const extra = sources.length - 1
+  const points = Math.min(extra * 5, 15)
+  const repeats = candidates.length - sources.length
+
+  return {
+    key: 'sources',
+    label: sources.length === 1 ? 'Single source' : `${sources.length} independent sources`,
+    points,
+    detail:
+      (sources.length === 1 ? 'Seen on one site or query' : `Seen on ${sources.slice(0, 3).join(', ')}${sources.length > 3 ? '…' : ''}`) +
+      (repeats > 0 ? ` (${repeats} repeat ${repeats === 1 ? 'sighting' : 'sightings'} not counted)` : '')
+  }
+}
+
+const scoreExtractionStage = (candidates: Candidate[]): ConfidenceFactor =>
+  candidates.some(candidate => candidate.stage === 'page-content')
+    ? { key: 'extraction-stage', label: 'Extracted from a page', points: 5, detail: 'Found in the full text of a web page' }
+    : { key: 'extraction-stage', label: 'Extracted from snippets', points: 0, detail: 'Found only in search result snippets' }
+
+const scoreRoleAccount = (email: string, roleAccounts: string[]): ConfidenceFactor | null => {
+  const role = classifyRoleAccount(email, roleAccounts)
+  return role
+    ? { key: 'role-account', label: 'Role account', points: -20, detail: `${role}@ is a shared mailbox, not a person` }
+    : null
+}
+
+export const scoreDeliverability = ({ status, detail }: DeliverabilityResult): ConfidenceFactor => {
+  switch (status) {
+    case 'deliverable':
+      return { key: 'deliverability', label: 'Mailbox exists', points: 10, detail }
+    case 'undeliverable':
+      return { key: 'deliverability', label: 'Would bounce', points: -40, detail }
+    case 'catch-all':
+      return { key: 'deliverability', label: 'Catch-all domain', points: 0, detail }
+    case 'unknown':
+      return { key: 'deliverability', label: 'Deliverability unknown', points: 0, detail }
+  }
+}
+
+// Scores all sightings of one mailbox, judged against the fields merged from
+// all of them. roleAccounts extends the built-in list of shared mailbox names.
+export const scoreEvidence = (email: string, candidates: Candidate[], roleAccounts: string[] = []): ConfidenceBreakdown => {
+  const { localPart, domain } = splitEmail(email)
+  const contact = candidates.length > 0 ? mergeContacts(candidates) : undefined
+
+  const factors = [
+    scoreVerbatim(candidates),
+    scoreDomainMatch(domain, contact?.company),
+    scoreNameMatch(localPart, contact?.name),
+    scoreSources(candidates),
+    scoreExtractionStage(candidates),
+    scoreRoleAccount(email, roleAccounts)
+  ].filter((factor): factor is ConfidenceFactor => factor !== null)
+
+  return { base: BASE_SCORE, factors }
+}
+
+export const totalConfidence = (breakdown: ConfidenceBreakdown): number => {
+  const total = breakdown.factors.reduce((sum, factor) => sum + factor.points, breakdown.base)
+  return Math.max(0, Math.min(100, total))
+}
+
+// For results scored outside scoreEvidence, such as inferred addresses
+export const buildConfidence = (
+  factors: ConfidenceFactor[]
+): { confidence: number; confidenceBreakdown: ConfidenceBreakdown } => {
+  const confidenceBreakdown = { base: BASE_SCORE, factors }
+  return { confidence: totalConfidence(confidenceBreakdown), confidenceBreakdown }
+}
@@ -0,0 +1,162 @@
+import { DEFAULT_SCHEDULER_CONFIG, type EndpointLimits, type SchedulerConfig } from './scheduler'
+
+// How deep a search goes and how hard it leans on the SDK
+export interface SearchSettings {
+  maxQueries: number
+  resultsPerSearch: number
+  urlsPerQuery: number
+  maxResults: number
+  snippetPromptChars: number
+  pagePromptChars: number
+}
+
+export type SearchPresetId = 'quick' | 'standard' | 'deep'
+
+export interface SearchPreset {
+  id: SearchPresetId
+  label: string
+  description: string
+  settings: SearchSettings
+}
+
+export const SEARCH_PRESETS: Record<SearchPresetId, SearchPreset> = {
+  quick: {
+    id: 'quick',
+    label: 'Quick',
+    description: 'Two queries, search snippets only',
+    settings: {
+      maxQueries: 2,
+      resultsPerSearch: 5,
+      urlsPerQuery: 0,
+      maxResults: 10,
+      snippetPromptChars: 2000,
+      pagePromptChars: 3000
+    }
+  },
+  standard: {
+    id: 'standard',
+    label: 'Standard',
+    description: 'Three queries, one page fetched per query',
+    settings: {
+      maxQueries: 3,
+      resultsPerSearch: 6,
+      urlsPerQuery: 1,
+      maxResults: 10,
+      snippetPromptChars: 2000,
+      pagePromptChars: 3000
+    }
+  },
+  deep: {
+    id: 'deep',
+    label: 'Deep',
+    description: 'Five queries, three pages per query, longer prompts',
+    settings: {
+      maxQueries: 5,
+      resultsPerSearch: 10,
+      urlsPerQuery: 3,
+      maxResults: 25,
+      snippetPromptChars: 3000,
+      pagePromptChars: 6000
+    }
+  }
+}
+
+export const DEFAULT_SEARCH_SETTINGS: SearchSettings = SEARCH_PRESETS.standard.settings
+
+// Allowed range for each setting; anything outside is clamped
+export const SEARCH_SETTING_LIMITS: Record<keyof SearchSettings, { min: number; max: number; step: number }> = {
+  maxQueries: { min: 1, max: 10, step: 1 },
+  resultsPerSearch: { min: 1, max: 20, step: 1 },
+  urlsPerQuery: { min: 0, max: 5, step: 1 },
+  maxResults: { min: 1, max: 50, step: 1 },
+  snippetPromptChars: { min: 500, max: 8000, step: 500 },
+  pagePromptChars: { min: 500, max: 12000, step: 500 }
+}
+
+// Keys older versions stored that no longer exist are dropped
+export const normalizeSearchSettings = (settings: Partial<SearchSettings> = {}): SearchSettings => {
+  const merged = { ...DEFAULT_SEARCH_SETTINGS, ...settings }
+  const normalized = { ...DEFAULT_SEARCH_SETTINGS }
+
+  ;(Object.keys(SEARCH_SETTING_LIMITS) as Array<keyof SearchSettings>).forEach(key => {
+    const { min, max } = SEARCH_SETTING_LIMITS[key]
+    const value = Number(merged[key])
+    normalized[key] = Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : DEFAULT_SEARCH_SETTINGS[key]
+  })
+
+  return normalized
+}
+
+// Which preset these settings match exactly, if any
+export const matchPreset = (settings: SearchSettings): SearchPresetId | null => {
+  const match = Object.values(SEARCH_PRESETS).find(preset =>
+    (Object.keys(preset.settings) as Array<keyof SearchSettings>).every(key => preset.settings[key] === settings[key])
+  )
+  return match ? match.id : null
+}
+
+// Queries a run works on at once; the client's scheduler still decides how
+// many SDK calls actually go out
+export const QUERY_CONCURRENCY = 3
+
+// Rough per-call latencies and token sizes used for the projection
+const SEARCH_SECONDS = 2
+const EXTRACT_SECONDS = 4
+const GENERATE_SECONDS = 5
+const CHARS_PER_TOKEN = 4
+const PLAN_TOKENS = 300 + 150
+const SNIPPET_REPLY_TOKENS = 600
+const PAGE_REPLY_TOKENS = 800
+
+export interface RunEstimate {
+  searches: number
+  extractions: number
+  llmCalls: number
+  tokens: number
+  seconds: number
+}
+
+// How long one endpoint's calls take: spread over the calls it allows at
+// once, and no quicker than its per-minute rate once the burst is spent
+const endpointSeconds = (calls: number, latency: number, lanes: number, limits: EndpointLimits): number =>
+  calls === 0
+    ? 0
+    : Math.max(
+        (calls * latency) / Math.max(1, Math.min(lanes, limits.concurrency)),
+        (Math.max(0, calls - limits.burst) * 60) / limits.perMinute
+      )
+
+// Worst-case projection of what a run with these settings will cost. Pass
+// queryCount when the queries are already known (plan-first mode). Time
+// assumes the run's queries go side by side within the scheduler's limits.
+export const estimateRun = (
+  settings: SearchSettings,
+  queryCount?: number,
+  scheduler: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): RunEstimate => {
+  const planned = queryCount === undefined
+  const queries = planned ? settings.maxQueries : queryCount
+  const searches = queries
+  const extractions = queries * settings.urlsPerQuery
+  const llmCalls = (planned ? 1 : 0) + queries + extractions
+
+  const tokens =
+    (planned ? PLAN_TOKENS : 0) +
+    queries * (settings.snippetPromptChars / CHARS_PER_TOKEN + SNIPPET_REPLY_TOKENS) +
+    extractions * (settings.pagePromptChars / CHARS_PER_TOKEN + PAGE_REPLY_TOKENS)
+
+  // The plan comes first on its own; the queries then share the lanes
+  const queryCalls = llmCalls - (planned ? 1 : 0)
+  const lanes = Math.max(1, Math.min(QUERY_CONCURRENCY, queries, scheduler.maxConcurrent))
+  const { endpoints } = scheduler
+  const seconds =
+    (planned ? GENERATE_SECONDS : 0) +
+    Math.max(
+      (searches * SEARCH_SECONDS + extractions * EXTRACT_SECONDS + queryCalls * GENERATE_SECONDS) / lanes,
+      endpointSeconds(searches, SEARCH_SECONDS, lanes, endpoints.search),
+      endpointSeconds(extractions, EXTRACT_SECONDS, lanes, endpoints.extract),
+      endpointSeconds(queryCalls, GENERATE_SECONDS, lanes, endpoints.generate)
+    )
+
+  return { searches, extractions, llmCalls, tokens: Math.round(tokens), seconds: Math.round(seconds) }
+}
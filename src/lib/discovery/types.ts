@@ -0,0 +1,222 @@
+import type { DeliverabilityResult, DeliverabilityVerifier } from '../deliverability'
+import type { ErrorKind } from './errors'
+import type { ParseIssue } from './parsing'
+import type { DomainPattern, PatternInference } from './patterns'
+import type { EmailType, ProviderClassifier } from './providers'
+import type { DiscoveryEvent } from './progress'
+import type { SearchSettings } from './settings'
+import type { EmailValidation } from './validation'
+import type { UnsupportedPolicy, VerificationSummary } from './verification'
+
+export interface EmailResult {
+  id: string
+  email: string
+  name: string
+  company: string
+  title: string
+  confidence: number
+  confidenceBreakdown: ConfidenceBreakdown
+  source: string
+  evidence: Evidence[]
+  // The best support any sighting had in its source text
+  support: SupportLevel
+  // Syntax and domain check; "deobfuscated" when it was decoded from e.g. "[at]"
+  validation: EmailValidation
+  // MX/SMTP check; absent until checked
+  deliverability?: DeliverabilityResult
+  // Set when the address was generated from the company's format, not found
+  inference?: PatternInference
+  // The shared mailbox this is ("sales", "info", ...), absent for personal addresses
+  roleAccount?: string
+  // Company domain, personal free-mail or throwaway inbox
+  emailType: EmailType
+  // Other spellings of this mailbox that were merged in, e.g. with a +tag
+  aliases?: string[]
+}
+
+// How well the source text backs up an extracted address
+export type SupportLevel = 'verbatim' | 'pattern' | 'unsupported'
+
+// Where an address was seen, so a rep can verify it before sending
+export interface Evidence {
+  url?: string
+  query: string
+  // Text surrounding the address in the source, empty if it wasn't found verbatim
+  snippet: string
+  extractedAt: string
+  stage: ExtractionStage
+  support: SupportLevel
+}
+
+export type ConfidenceFactorKey =
+  | 'verbatim'
+  | 'domain-match'
+  | 'name-match'
+  | 'sources'
+  | 'extraction-stage'
+  | 'role-account'
+  | 'deliverability'
+  | 'inferred-pattern'
+
+// One line of the confidence explanation, e.g. "+25 address appears in page text"
+export interface ConfidenceFactor {
+  key: ConfidenceFactorKey
+  label: string
+  points: number
+  detail: string
+}
+
+export interface ConfidenceBreakdown {
+  base: number
+  factors: ConfidenceFactor[]
+}
+
+// A single organic search result, normalized away from the SDK response shape
+export interface SearchHit {
+  title: string
+  link: string
+  snippet: string
+  displayedLink?: string
+  extensions?: string[]
+}
+
+export interface GenerateTextOptions {
+  prompt: string
+  maxTokens?: number
+  signal?: AbortSignal
+}
+
+export interface SearchOptions {
+  limit?: number
+  signal?: AbortSignal
+}
+
+export interface ExtractOptions {
+  signal?: AbortSignal
+}
+
+// The subset of the Blink SDK the discovery pipeline depends on. Anything that
+// implements this (the real SDK adapter, a fake in tests) can drive a search.
+export interface DiscoveryClient {
+  generateText(options: GenerateTextOptions): Promise<string>
+  search(query: string, options?: SearchOptions): Promise<SearchHit[]>
+  extractFromUrl(url: string, options?: ExtractOptions): Promise<string>
+}
+
+// Where in the pipeline a contact was extracted from
+export type ExtractionStage = 'search-results' | 'page-content'
+
+// A contact as returned by the LLM, before scoring and dedupe
+export interface ExtractedContact {
+  email: string
+  validation: EmailValidation
+  name?: string
+  company?: string
+  title?: string
+  source?: string
+}
+
+export interface ExtractedPerson {
+  name: string
+  company?: string
+  title?: string
+  source?: string
+}
+
+// A person named in the source text without an address
+export interface PersonSighting {
+  person: ExtractedPerson
+  stage: ExtractionStage
+  query: string
+  url?: string
+  // Text around the name in the source, empty if it isn't there
+  snippet: string
+  extractedAt: string
+}
+
+export interface Candidate {
+  contact: ExtractedContact
+  stage: ExtractionStage
+  query: string
+  url?: string
+  // Text around the address in the source, empty if it wasn't found verbatim.
+  // Only this much is kept: candidates go into every checkpoint.
+  snippet: string
+  extractedAt: string
+  support: SupportLevel
+}
+
+// A parse problem along with where in the pipeline it happened
+export interface ParseFailure extends ParseIssue {
+  stage: ExtractionStage
+  query: string
+  url?: string
+}
+
+// A failure the run recovered from by skipping a query, page or reply
+export interface RunError {
+  kind: ErrorKind
+  message: string
+  query?: string
+  url?: string
+}
+
+export interface DiscoveryOptions {
+  // Queries to run instead of asking the LLM for a plan
+  queries?: string[]
+  // What to do with addresses that nothing in the source text supports
+  unsupportedPolicy?: UnsupportedPolicy
+  // Aborting stops the run and returns whatever was collected so far
+  signal?: AbortSignal
+  // Called as each stage, query and URL progresses, and with interim results
+  onProgress?: (event: DiscoveryEvent) => void
+  // Search depth and budget; missing fields use the Standard preset
+  settings?: Partial<SearchSettings>
+  // Checks each final result's mailbox; skipped when absent
+  deliverability?: DeliverabilityVerifier
+  // Known company address formats, used to infer addresses for named people
+  patterns?: DomainPattern[]
+  // Extra shared mailbox names on top of the built-in list
+  roleAccounts?: string[]
+  // Free-mail and disposable domain lists; the bundled dataset when absent
+  providers?: ProviderClassifier
+  // Pages on this domain are fetched before other promising hits
+  preferDomain?: string
+  // Drops results before they are streamed, checked or returned
+  resultFilter?: (result: EmailResult) => boolean
+  // Resumes an earlier run after its last finished query instead of starting over
+  checkpoint?: DiscoveryCheckpoint
+  // Called after planning and after every query with what a resume would need
+  onCheckpoint?: (checkpoint: DiscoveryCheckpoint) => void
+}
+
+// Everything a run has collected by the end of a query
+export interface DiscoveryCheckpoint {
+  queries: string[]
+  completedQueries: number
+  // Indexes of the finished queries, which run side by side and can finish out
+  // of order. Absent in older checkpoints, where the first completedQueries are.
+  doneQueries?: number[]
+  candidates: Candidate[]
+  people: PersonSighting[]
+  parseFailures: ParseFailure[]
+  // Absent in checkpoints saved before failures were tracked
+  errors?: RunError[]
+}
+
+export type DiscoveryStatus = 'completed' | 'cancelled'
+
+export interface DiscoveryOutcome {
+  status: DiscoveryStatus
+  queries: string[]
+  candidates: Candidate[]
+  results: EmailResult[]
+  verification: VerificationSummary
+  parseFailures: ParseFailure[]
+  // What went wrong along the way, for the error summary
+  errors: RunError[]
+  // Matching people the sources named without an address
+  people: PersonSighting[]
+  // Domains whose address format this run taught us something new about
+  patterns: DomainPattern[]
+}
@@ -0,0 +1,118 @@
+// URL validation helper function
+export const isValidUrl = (url: string): boolean => {
+  try {
+    const urlObj = new URL(url)
+    return urlObj.protocol === 'http:' || urlObj.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// True for the domain itself and its subdomains; accepts URLs or bare hostnames
+export const isOnDomain = (urlOrHost: string, domain: string): boolean => {
+  let host = urlOrHost.toLowerCase()
+  try {
+    host = new URL(urlOrHost).hostname.toLowerCase()
+  } catch {
+    // Already a hostname
+  }
+  const target = domain.toLowerCase()
+  return host === target || host.endsWith(`.${target}`)
+}
+
+// Enhanced URL filtering for better extraction success
+export const isExtractableUrl = (url: string): boolean => {
+  if (!isValidUrl(url)) return false
+
+  // Skip problematic URL patterns that often fail extraction
+  const skipPatterns = [
+    '/search',
+    '/login',
+    '/signup',
+    '/register',
+    '/auth',
+    '/signin',
+    'javascript:',
+    'mailto:',
+    'tel:',
+    '#',
+    '.pdf',
+    '.doc',
+    '.docx',
+    '.xls',
+    '.xlsx',
+    '.ppt',
+    '.pptx',
+    '.zip',
+    '.rar',
+    '.exe',
+    '.dmg',
+    'linkedin.com/in/', // LinkedIn profiles often blocked
+    'facebook.com',
+    'twitter.com',
+    'instagram.com',
+    'youtube.com',
+    'tiktok.com',
+    'pinterest.com',
+    'reddit.com/r/',
+    'amazon.com/dp/',
+    'amazon.com/gp/',
+    'ebay.com',
+    'etsy.com'
+  ]
+
+  // Only allow URLs from domains that typically have extractable content
+  const allowedDomains = [
+    'company',
+    'corp',
+    'inc',
+    'llc',
+    'org',
+    'edu',
+    'gov',
+    'about',
+    'team',
+    'contact',
+    'directory',
+    'staff',
+    'leadership'
+  ]
+
+  const hasAllowedPattern = allowedDomains.some(pattern =>
+    url.toLowerCase().includes(pattern)
+  )
+
+  const hasSkipPattern = skipPatterns.some(pattern =>
+    url.toLowerCase().includes(pattern)
+  )
+
+  return !hasSkipPattern && (hasAllowedPattern || url.includes('/about') || url.includes('/team') || url.includes('/contact'))
+}
+
+// URL path fragments that usually point at pages listing people
+const promisingPatterns = [
+  'about',
+  'team',
+  'contact',
+  'directory',
+  'staff',
+  'leadership',
+  'management',
+  'executives',
+  'people',
+  'bio',
+  'profile'
+]
+
+// Explains why a search hit won't be fetched, or returns null if it should be
+export const urlSkipReason = (url: string): string | null => {
+  if (!url || !isValidUrl(url)) return 'Not a valid web URL'
+  if (!isExtractableUrl(url)) return 'Site or file type usually blocks extraction'
+
+  const hasPromisingPattern = promisingPatterns.some(pattern =>
+    url.toLowerCase().includes(pattern)
+  )
+  return hasPromisingPattern ? null : 'Not a team, bio or contact page'
+}
+
+export const isPromisingUrl = (url: string): boolean => urlSkipReason(url) === null
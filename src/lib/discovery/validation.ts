@@ -0,0 +1,116 @@
+// "deobfuscated" addresses are valid, but were written in a disguised form
+// such as "jane [at] acme [dot] com" and decoded before validation
+export type EmailValidationStatus = 'valid' | 'deobfuscated' | 'invalid'
+
+export interface EmailValidation {
+  status: EmailValidationStatus
+  // Why an address was rejected
+  reason?: string
+  // The text as written, when it had to be decoded
+  original?: string
+}
+
+const MAX_LOCAL_LENGTH = 64
+const MAX_EMAIL_LENGTH = 254
+const MAX_LABEL_LENGTH = 63
+
+// RFC 5322 dot-atom; quoted local parts are legal but never seen on real pages
+const LOCAL_PART = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/i
+const DOMAIN_LABEL = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/i
+const TOP_LEVEL_DOMAIN = /^(?:[a-z]{2,63}|xn--[a-z0-9-]{1,59})$/i
+
+// RFC 2606 / 6761 reserved names, plus .local which never routes publicly
+const RESERVED_TLDS = ['test', 'example', 'invalid', 'localhost', 'local']
+
+// Placeholders the LLM tends to copy from prompts and templates
+const PLACEHOLDER_DOMAINS = ['company.com', 'domain.com', 'yourcompany.com', 'yourdomain.com', 'email.example']
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  commat: '@',
+  period: '.',
+  nbsp: ' ',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+}
+
+// "[at]", "(at)", "{at}", "<at>", "[@]" and the same for dot
+const BRACKETED_AT = /\s*[[({<]\s*(?:at|@)\s*[\])}>]\s*/gi
+const BRACKETED_DOT = /\s*[[({<]\s*(?:dot|\.)\s*[\])}>]\s*/gi
+// "jane at acme dot com", only trusted when the whole string has that shape
+const SPELLED_OUT = /^([a-z0-9._%+-]+)\s+at\s+((?:[a-z0-9-]+\s+dot\s+)+[a-z]{2,63})$/i
+
+export const decodeHtmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? match
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+    return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : match
+  })
+
+// Undoes entity encoding and bracketed [at]/[dot] in free text, so addresses
+// written that way can still be found in a page
+export const deobfuscateText = (text: string): string =>
+  decodeHtmlEntities(text).replace(BRACKETED_AT, '@').replace(BRACKETED_DOT, '.')
+
+// Turns an address as written into its plain lowercase form
+export const deobfuscateEmail = (raw: string): string => {
+  const text = deobfuscateText(raw).trim().replace(/^mailto:/i, '').split('?')[0].trim()
+  const spelled = text.match(SPELLED_OUT)
+  const decoded = spelled ? `${spelled[1]}@${spelled[2].replace(/\s+dot\s+/gi, '.')}` : text
+  return decoded.toLowerCase()
+}
+
+// Returns why the address is syntactically invalid, or null when it's fine
+export const emailSyntaxError = (email: string): string | null => {
+  if (email.length > MAX_EMAIL_LENGTH) return 'Address is too long'
+
+  const at = email.lastIndexOf('@')
+  if (at === -1) return 'Missing @'
+  if (email.indexOf('@') !== at) return 'More than one @'
+
+  const local = email.slice(0, at)
+  const domain = email.slice(at + 1)
+  if (!local) return 'Missing the part before @'
+  if (local.length > MAX_LOCAL_LENGTH) return 'Part before @ is too long'
+  if (!LOCAL_PART.test(local)) return 'Part before @ has invalid characters or dots'
+  if (!domain) return 'Missing domain'
+
+  const labels = domain.split('.')
+  if (labels.length < 2) return 'Domain has no top-level domain'
+  if (labels.some(label => label.length === 0 || label.length > MAX_LABEL_LENGTH || !DOMAIN_LABEL.test(label))) {
+    return 'Domain is malformed'
+  }
+  if (!TOP_LEVEL_DOMAIN.test(labels[labels.length - 1])) return 'Top-level domain is invalid'
+
+  return null
+}
+
+// Returns why the domain can't belong to a real mailbox, or null when it can
+export const reservedDomainError = (domain: string): string | null => {
+  const labels = domain.toLowerCase().split('.')
+  const tld = labels[labels.length - 1]
+
+  if (domain === 'localhost' || RESERVED_TLDS.includes(tld)) return `Reserved domain (.${tld})`
+  if (labels.slice(0, -1).includes('example')) return 'Example domain'
+  if (PLACEHOLDER_DOMAINS.includes(domain.toLowerCase())) return 'Placeholder domain'
+
+  return null
+}
+
+// Decodes, normalises and checks an address. Invalid addresses keep the
+// decoded text so the reason can be shown alongside it.
+export const validateEmail = (raw: string): { email: string; validation: EmailValidation } => {
+  const email = deobfuscateEmail(raw)
+  const original = raw.trim()
+  const changed = email !== original.toLowerCase().replace(/^mailto:/, '')
+
+  const domain = email.slice(email.lastIndexOf('@') + 1)
+  const reason = emailSyntaxError(email) || reservedDomainError(domain)
+  if (reason) return { email, validation: { status: 'invalid', reason, original } }
+
+  return changed
+    ? { email, validation: { status: 'deobfuscated', original } }
+    : { email, validation: { status: 'valid' } }
+}
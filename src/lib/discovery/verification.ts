@@ -0,0 +1,74 @@
+import { canonicalEmail } from './merge'
+import type { Candidate, ExtractedContact, SupportLevel } from './types'
+import { deobfuscateText } from './validation'
+
+export type UnsupportedPolicy = 'drop' | 'flag'
+
+export interface VerificationSummary {
+  verbatim: number
+  pattern: number
+  unsupported: number
+  dropped: number
+}
+
+const SUPPORT_RANK: Record<SupportLevel, number> = {
+  verbatim: 2,
+  pattern: 1,
+  unsupported: 0
+}
+
+const nameTokens = (name?: string): string[] =>
+  (name || '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(token => token.length > 1 && token !== 'unknown')
+
+// Decides whether the source text backs up an address the LLM returned.
+// "pattern" means the address isn't in the text, but its domain and the
+// person's name are, so it was plausibly built from the company's format.
+export const classifySupport = (contact: ExtractedContact, content: string): SupportLevel => {
+  const haystack = content.toLowerCase()
+  const email = contact.email.toLowerCase()
+  if (haystack.includes(email)) return 'verbatim'
+  // Written as "jane [at] acme [dot] com" or with HTML entities still counts
+  if (deobfuscateText(haystack).includes(email)) return 'verbatim'
+  const original = contact.validation.original?.toLowerCase()
+  if (original && haystack.includes(original)) return 'verbatim'
+
+  const domain = email.slice(email.lastIndexOf('@') + 1)
+  const tokens = nameTokens(contact.name)
+  const domainInText = domain.length > 0 && haystack.includes(domain)
+  const nameInText = tokens.length > 0 && tokens.every(token => haystack.includes(token))
+
+  return domainInText && nameInText ? 'pattern' : 'unsupported'
+}
+
+export const strongestSupport = (levels: SupportLevel[]): SupportLevel =>
+  levels.reduce<SupportLevel>(
+    (best, level) => (SUPPORT_RANK[level] > SUPPORT_RANK[best] ? level : best),
+    'unsupported'
+  )
+
+// Hallucination guard: drops (or keeps, flagged) extractions with no support
+// in their source. The summary counts distinct addresses, each under the
+// best support any of its sightings had, so one found on three pages counts once.
+export const verifyCandidates = (
+  candidates: Candidate[],
+  policy: UnsupportedPolicy = 'drop'
+): { candidates: Candidate[]; summary: VerificationSummary } => {
+  const summary: VerificationSummary = { verbatim: 0, pattern: 0, unsupported: 0, dropped: 0 }
+  const supportByEmail = new Map<string, SupportLevel[]>()
+  candidates.forEach(candidate => {
+    const key = canonicalEmail(candidate.contact.email)
+    supportByEmail.set(key, [...(supportByEmail.get(key) || []), candidate.support])
+  })
+
+  supportByEmail.forEach(levels => {
+    const support = strongestSupport(levels)
+    summary[support]++
+    if (support === 'unsupported' && policy === 'drop') summary.dropped++
+  })
+
+  const kept = candidates.filter(candidate => candidate.support !== 'unsupported' || policy === 'flag')
+  return { candidates: kept, summary }
+}
@@ -0,0 +1,39 @@
+import type { EmailResult } from '../discovery'
+
+export interface CsvColumn {
+  header: string
+  value: (result: EmailResult) => string | number
+}
+
+// Role accounts go in "Company Inbox" instead of "Email", so a mail merge
+// over the Email column only reaches people
+export const RESULT_COLUMNS: CsvColumn[] = [
+  { header: 'Name', value: result => result.name },
+  { header: 'Email', value: result => (result.roleAccount ? '' : result.email) },
+  { header: 'Company Inbox', value: result => (result.roleAccount ? result.email : '') },
+  { header: 'Company', value: result => result.company },
+  { header: 'Title', value: result => result.title },
+  { header: 'Email Type', value: result => result.emailType || '' },
+  { header: 'Confidence', value: result => result.confidence },
+  { header: 'Source', value: result => result.source }
+]
+
+// Quotes every text field and doubles embedded quotes (RFC 4180)
+export const csvField = (value: string | number): string =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/"/g, '""')}"`
+
+export const buildCsv = (results: EmailResult[], columns: CsvColumn[] = RESULT_COLUMNS): string =>
+  [
+    columns.map(column => csvField(column.header)).join(','),
+    ...results.map(result => columns.map(column => csvField(column.value(result))).join(','))
+  ].join('\r\n')
+
+export const downloadCsv = (content: string, filename: string): void => {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
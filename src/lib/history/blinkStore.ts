@@ -0,0 +1,89 @@
+import type { BlinkDatabase } from '@blinkdotnew/sdk'
+import { parsePersonaSpec, type CompanyTarget, type EmailResult, type PersonLookup } from '../discovery'
+import type { HistoryStore, SearchHistoryEntry } from './types'
+
+const SEARCHES_TABLE = 'search_history'
+const RESULTS_TABLE = 'search_results'
+
+// The structured persona, company target and person lookup are stored as JSON columns
+interface SearchHistoryRow extends Omit<SearchHistoryEntry, 'personaSpec' | 'companyTarget' | 'personLookup'> {
+  personaSpecJson?: string
+  companyTargetJson?: string
+  personLookupJson?: string
+}
+
+const toRow = ({ personaSpec, companyTarget, personLookup, ...entry }: SearchHistoryEntry): SearchHistoryRow => ({
+  ...entry,
+  personaSpecJson: personaSpec ? JSON.stringify(personaSpec) : undefined,
+  companyTargetJson: companyTarget ? JSON.stringify(companyTarget) : undefined,
+  personLookupJson: personLookup ? JSON.stringify(personLookup) : undefined
+})
+
+const fromRow = ({ personaSpecJson, companyTargetJson, personLookupJson, ...entry }: SearchHistoryRow): SearchHistoryEntry => {
+  try {
+    return {
+      ...entry,
+      personaSpec: personaSpecJson ? parsePersonaSpec(JSON.parse(personaSpecJson)) : undefined,
+      companyTarget: companyTargetJson ? (JSON.parse(companyTargetJson) as CompanyTarget) : undefined,
+      personLookup: personLookupJson ? (JSON.parse(personLookupJson) as PersonLookup) : undefined
+    }
+  } catch (error) {
+    console.log('Failed to parse stored search details:', entry.id, error)
+    return entry
+  }
+}
+
+// Result sets are stored as one JSON blob per search, keyed by the search id
+interface SearchResultsRow {
+  id: string
+  userId: string
+  searchId: string
+  resultsJson: string
+}
+
+const parseResults = (row: SearchResultsRow | undefined): EmailResult[] => {
+  if (!row) return []
+  try {
+    return JSON.parse(row.resultsJson) as EmailResult[]
+  } catch (error) {
+    console.log('Failed to parse stored results for search:', row.searchId, error)
+    return []
+  }
+}
+
+export const createBlinkHistoryStore = (db: BlinkDatabase): HistoryStore => {
+  const searches = db.table<SearchHistoryRow>(SEARCHES_TABLE)
+  const results = db.table<SearchResultsRow>(RESULTS_TABLE)
+
+  return {
+    saveSearch: async (entry, emailResults) => {
+      await searches.create(toRow(entry))
+      await results.create({
+        id: `results-${entry.id}`,
+        userId: entry.userId,
+        searchId: entry.id,
+        resultsJson: JSON.stringify(emailResults)
+      })
+    },
+
+    listSearches: async (userId, { limit, before }) => {
+      // Fetch one extra row to learn whether another page exists
+      const rows = await searches.list({
+        where: before ? { userId, createdAt: { lt: before } } : { userId },
+        orderBy: { createdAt: 'desc' },
+        limit: limit + 1
+      })
+      return { entries: rows.slice(0, limit).map(fromRow), hasMore: rows.length > limit }
+    },
+
+    loadResults: async (userId, searchId) => {
+      const rows = await results.list({ where: { userId, searchId }, limit: 1 })
+      return parseResults(rows[0])
+    },
+
+    deleteSearch: async (userId, searchId) => {
+      await results.deleteMany({ where: { userId, searchId } })
+      await searches.deleteMany({ where: { userId, id: searchId } })
+    }
+  }
+}
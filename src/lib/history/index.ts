@@ -0,0 +1,3 @@
+export * from './types'
+export { createBlinkHistoryStore } from './blinkStore'
+export { createMemoryHistoryStore } from './memoryStore'
@@ -0,0 +1,33 @@
+import type { EmailResult } from '../discovery'
+import type { HistoryStore, SearchHistoryEntry } from './types'
+
+export const createMemoryHistoryStore = (): HistoryStore => {
+  const searches: SearchHistoryEntry[] = []
+  const results = new Map<string, EmailResult[]>()
+
+  return {
+    saveSearch: async (entry, emailResults) => {
+      searches.push({ ...entry })
+      results.set(entry.id, emailResults.map(result => ({ ...result })))
+    },
+
+    listSearches: async (userId, { limit, before }) => {
+      const mine = searches
+        .filter(entry => entry.userId === userId && (!before || entry.createdAt < before))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      return { entries: mine.slice(0, limit), hasMore: mine.length > limit }
+    },
+
+    loadResults: async (userId, searchId) => {
+      const owned = searches.some(entry => entry.id === searchId && entry.userId === userId)
+      return owned ? results.get(searchId) || [] : []
+    },
+
+    deleteSearch: async (userId, searchId) => {
+      const index = searches.findIndex(entry => entry.id === searchId && entry.userId === userId)
+      if (index === -1) return
+      searches.splice(index, 1)
+      results.delete(searchId)
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import type { CompanyTarget, DiscoveryStatus, EmailResult, PersonaSpec, PersonLookup } from '../discovery'
+
+// Failed searches are kept too, so they can be looked up and rerun
+export type SearchHistoryStatus = DiscoveryStatus | 'failed'
+
+export interface SearchHistoryEntry {
+  id: string
+  userId: string
+  // The text the search ran with; compiled from personaSpec when the builder was used
+  persona: string
+  personaSpec?: PersonaSpec
+  // The saved persona version the search ran with, if it came from the library
+  personaId?: string
+  personaVersion?: number
+  // Set for company-mode searches
+  companyTarget?: CompanyTarget
+  // Set for person lookups
+  personLookup?: PersonLookup
+  createdAt: string
+  resultCount: number
+  status: SearchHistoryStatus
+  // What stopped a failed search
+  error?: string
+}
+
+export interface HistoryPage {
+  entries: SearchHistoryEntry[]
+  hasMore: boolean
+}
+
+export interface HistoryPageRequest {
+  limit: number
+  // createdAt of the last entry already shown; searches saved since then
+  // don't shift the pages the way an offset would
+  before?: string
+}
+
+// Where past searches and their result sets are kept. The Blink adapter is
+// used in the app; the in-memory one backs tests and offline use.
+export interface HistoryStore {
+  saveSearch(entry: SearchHistoryEntry, results: EmailResult[]): Promise<void>
+  listSearches(userId: string, page: HistoryPageRequest): Promise<HistoryPage>
+  loadResults(userId: string, searchId: string): Promise<EmailResult[]>
+  deleteSearch(userId: string, searchId: string): Promise<void>
+}
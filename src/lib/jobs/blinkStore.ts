@@ -0,0 +1,93 @@
+import type { BlinkDatabase } from '@blinkdotnew/sdk'
+import type { DiscoveryCheckpoint, DomainPattern, EmailResult, ErrorKind, RunError, SearchSettings } from '../discovery'
+import type { JobStore, SearchJob, SearchRequest } from './types'
+
+const JOBS_TABLE = 'search_jobs'
+
+// Only recent jobs are listed; finished ones live on in search history
+const LIST_LIMIT = 50
+
+// Nested fields are stored as JSON columns. Optional ones are written as null
+// rather than left out so an upsert clears them.
+interface SearchJobRow extends Omit<
+  SearchJob,
+  'request' | 'queries' | 'settings' | 'checkpoint' | 'results' | 'pattern' | 'errors' | 'error' | 'errorKind' | 'finishedAt'
+> {
+  requestJson: string
+  queriesJson: string | null
+  settingsJson: string
+  checkpointJson: string | null
+  resultsJson: string
+  patternJson: string | null
+  errorsJson: string | null
+  error: string | null
+  errorKind: ErrorKind | null
+  finishedAt: string | null
+}
+
+const toRow = ({
+  request,
+  queries,
+  settings,
+  checkpoint,
+  results,
+  pattern,
+  errors,
+  error,
+  errorKind,
+  finishedAt,
+  ...job
+}: SearchJob): SearchJobRow => ({
+  ...job,
+  requestJson: JSON.stringify(request),
+  queriesJson: queries ? JSON.stringify(queries) : null,
+  settingsJson: JSON.stringify(settings),
+  checkpointJson: checkpoint ? JSON.stringify(checkpoint) : null,
+  resultsJson: JSON.stringify(results),
+  patternJson: pattern ? JSON.stringify(pattern) : null,
+  errorsJson: errors ? JSON.stringify(errors) : null,
+  error: error ?? null,
+  errorKind: errorKind ?? null,
+  finishedAt: finishedAt ?? null
+})
+
+const fromRow = (row: SearchJobRow): SearchJob | null => {
+  const { requestJson, queriesJson, settingsJson, checkpointJson, resultsJson, patternJson, errorsJson, error, errorKind, finishedAt, ...job } = row
+  try {
+    return {
+      ...job,
+      request: JSON.parse(requestJson) as SearchRequest,
+      queries: queriesJson ? (JSON.parse(queriesJson) as string[]) : undefined,
+      settings: JSON.parse(settingsJson) as SearchSettings,
+      checkpoint: checkpointJson ? (JSON.parse(checkpointJson) as DiscoveryCheckpoint) : undefined,
+      results: JSON.parse(resultsJson) as EmailResult[],
+      pattern: patternJson ? (JSON.parse(patternJson) as DomainPattern) : undefined,
+      errors: errorsJson ? (JSON.parse(errorsJson) as RunError[]) : undefined,
+      error: error ?? undefined,
+      errorKind: errorKind ?? undefined,
+      finishedAt: finishedAt ?? undefined
+    }
+  } catch (parseError) {
+    console.log('Failed to parse stored search job:', row.id, parseError)
+    return null
+  }
+}
+
+export const createBlinkJobStore = (db: BlinkDatabase): JobStore => {
+  const jobs = db.table<SearchJobRow>(JOBS_TABLE)
+
+  return {
+    listJobs: async (userId) => {
+      const rows = await jobs.list({ where: { userId }, orderBy: { createdAt: 'desc' }, limit: LIST_LIMIT })
+      return rows.map(fromRow).filter((job): job is SearchJob => job !== null)
+    },
+
+    saveJob: async (job) => {
+      await jobs.upsert(toRow(job))
+    },
+
+    deleteJob: async (userId, jobId) => {
+      await jobs.deleteMany({ where: { userId, id: jobId } })
+    }
+  }
+}
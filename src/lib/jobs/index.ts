@@ -0,0 +1,6 @@
+export * from './types'
+export * from './queue'
+export * from './runner'
+export * from './notify'
+export { createBlinkJobStore } from './blinkStore'
+export { createMemoryJobStore } from './memoryStore'
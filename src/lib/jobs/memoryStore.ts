@@ -0,0 +1,21 @@
+import type { JobStore, SearchJob } from './types'
+
+export const createMemoryJobStore = (): JobStore => {
+  const jobs = new Map<string, SearchJob>()
+
+  return {
+    listJobs: async (userId) =>
+      Array.from(jobs.values())
+        .filter(job => job.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(job => ({ ...job })),
+
+    saveJob: async (job) => {
+      jobs.set(job.id, { ...job })
+    },
+
+    deleteJob: async (userId, jobId) => {
+      if (jobs.get(jobId)?.userId === userId) jobs.delete(jobId)
+    }
+  }
+}
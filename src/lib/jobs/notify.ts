@@ -0,0 +1,17 @@
+// Asks once, on the first submitted job, so finished searches can notify
+// while the tab is in the background
+export const requestNotificationPermission = (): void => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return
+  Notification.requestPermission().catch(error => console.log('Notification permission request failed:', error))
+}
+
+// A system notification, only when the tab isn't visible; toasts cover the rest
+export const notifyInBackground = (title: string, body: string): void => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+  if (typeof document !== 'undefined' && !document.hidden) return
+  try {
+    new Notification(title, { body })
+  } catch (error) {
+    console.log('Could not show notification:', error)
+  }
+}
@@ -0,0 +1,56 @@
+import type { SearchSettings } from '../discovery'
+import type { JobStatus, SearchJob, SearchRequest } from './types'
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  paused: 'Paused',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+export const createSearchJob = (
+  userId: string,
+  request: SearchRequest,
+  settings: SearchSettings,
+  queries?: string[]
+): SearchJob => {
+  const now = new Date().toISOString()
+  return {
+    id: `job-${Date.now()}`,
+    userId,
+    request,
+    queries: queries?.length ? queries : undefined,
+    settings,
+    status: 'queued',
+    results: [],
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+export const updateJob = (job: SearchJob, changes: Partial<SearchJob>): SearchJob => ({
+  ...job,
+  ...changes,
+  updatedAt: new Date().toISOString()
+})
+
+export const isJobFinished = (job: SearchJob): boolean =>
+  job.status === 'done' || job.status === 'failed' || job.status === 'cancelled'
+
+export const canPauseJob = (job: SearchJob): boolean => job.status === 'queued' || job.status === 'running'
+
+// Failed jobs resume from their checkpoint like paused ones
+export const canResumeJob = (job: SearchJob): boolean => job.status === 'paused' || job.status === 'failed'
+
+export const canCancelJob = (job: SearchJob): boolean => !isJobFinished(job)
+
+// A job still marked running when the jobs are loaded was cut off by a
+// reload or closed tab; it goes back in the queue and resumes from its checkpoint
+export const recoverJobs = (jobs: SearchJob[]): SearchJob[] =>
+  jobs.map(job => (job.status === 'running' ? updateJob(job, { status: 'queued' }) : job))
+
+// Oldest first, so jobs run in the order they were submitted
+export const nextQueuedJob = (jobs: SearchJob[]): SearchJob | undefined =>
+  jobs.filter(job => job.status === 'queued').sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0]
@@ -0,0 +1,34 @@
+import {
+  runCompanyDiscovery,
+  runDiscovery,
+  runPersonLookup,
+  type DiscoveryClient,
+  type DiscoveryOptions,
+  type DiscoveryOutcome,
+  type DomainPattern
+} from '../discovery'
+import type { SearchJob } from './types'
+
+export type SearchJobOutcome = DiscoveryOutcome & { pattern?: DomainPattern }
+
+// The job supplies the queries, settings and checkpoint
+export type JobRunOptions = Omit<DiscoveryOptions, 'queries' | 'settings' | 'checkpoint'>
+
+// Runs a job's search in whichever mode it was submitted in, resuming from
+// its checkpoint when it has one
+export const runSearchJob = (
+  client: DiscoveryClient,
+  job: SearchJob,
+  options: JobRunOptions = {}
+): Promise<SearchJobOutcome> => {
+  const runOptions: DiscoveryOptions = {
+    ...options,
+    queries: job.queries,
+    settings: job.settings,
+    checkpoint: job.checkpoint
+  }
+  const { companyTarget, personLookup, persona } = job.request
+  if (companyTarget) return runCompanyDiscovery(client, companyTarget, runOptions)
+  if (personLookup) return runPersonLookup(client, personLookup, runOptions)
+  return runDiscovery(client, persona, runOptions)
+}
@@ -0,0 +1,43 @@
+import type { DiscoveryCheckpoint, DomainPattern, EmailResult, ErrorKind, RunError, SearchSettings } from '../discovery'
+import type { SearchHistoryEntry } from '../history'
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed' | 'cancelled'
+
+// What to search for, in the same shape history records it
+export type SearchRequest = Pick<
+  SearchHistoryEntry,
+  'persona' | 'personaSpec' | 'personaId' | 'personaVersion' | 'companyTarget' | 'personLookup'
+>
+
+export interface SearchJob {
+  id: string
+  userId: string
+  request: SearchRequest
+  // A reviewed plan to run instead of planning
+  queries?: string[]
+  // Settings at submit time, so a resumed run goes as deep as it started
+  settings: SearchSettings
+  status: JobStatus
+  // Where a paused or interrupted run picks up
+  checkpoint?: DiscoveryCheckpoint
+  results: EmailResult[]
+  // The target domain's address format, for company searches and lookups
+  pattern?: DomainPattern
+  // Failures the run recovered from, once it has stopped
+  errors?: RunError[]
+  // Why a failed job failed
+  error?: string
+  errorKind?: ErrorKind
+  createdAt: string
+  updatedAt: string
+  finishedAt?: string
+}
+
+// Where search jobs are kept so they survive a reload. The Blink adapter is
+// used in the app; the in-memory one backs tests and offline use.
+export interface JobStore {
+  listJobs(userId: string): Promise<SearchJob[]>
+  // Inserts or replaces by id
+  saveJob(job: SearchJob): Promise<void>
+  deleteJob(userId: string, jobId: string): Promise<void>
+}
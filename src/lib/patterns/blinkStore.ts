@@ -0,0 +1,53 @@
+import type { BlinkDatabase } from '@blinkdotnew/sdk'
+import type { DomainPattern } from '../discovery/patterns'
+import type { PatternStore } from './types'
+
+const EMAIL_PATTERNS_TABLE = 'email_patterns'
+const MAX_PATTERNS = 500
+
+// One row per user and domain; the examples are stored as a JSON column
+interface DomainPatternRow extends Omit<DomainPattern, 'examples' | 'company'> {
+  id: string
+  userId: string
+  company: string
+  examplesJson: string
+}
+
+const rowId = (userId: string, domain: string) => `pattern-${userId}-${domain}`
+
+const fromRow = ({ id: _id, userId: _userId, examplesJson, company, ...row }: DomainPatternRow): DomainPattern => {
+  try {
+    return { ...row, company: company || undefined, examples: JSON.parse(examplesJson) }
+  } catch (error) {
+    console.log('Failed to parse stored email pattern:', row.domain, error)
+    return { ...row, company: company || undefined, examples: [] }
+  }
+}
+
+export const createBlinkPatternStore = (db: BlinkDatabase): PatternStore => {
+  const patterns = db.table<DomainPatternRow>(EMAIL_PATTERNS_TABLE)
+
+  return {
+    listPatterns: async (userId) => {
+      const rows = await patterns.list({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+        limit: MAX_PATTERNS
+      })
+      return rows.map(fromRow)
+    },
+
+    savePatterns: async (userId, updates) => {
+      if (updates.length === 0) return
+      await patterns.upsertMany(
+        updates.map(({ examples, company, ...pattern }) => ({
+          ...pattern,
+          id: rowId(userId, pattern.domain),
+          userId,
+          company: company || '',
+          examplesJson: JSON.stringify(examples)
+        }))
+      )
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './types'
+export { createBlinkPatternStore } from './blinkStore'
+export { createMemoryPatternStore } from './memoryStore'
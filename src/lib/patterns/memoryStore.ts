@@ -0,0 +1,19 @@
+import type { DomainPattern } from '../discovery/patterns'
+import type { PatternStore } from './types'
+
+export const createMemoryPatternStore = (): PatternStore => {
+  const byUser = new Map<string, Map<string, DomainPattern>>()
+
+  return {
+    listPatterns: async (userId) =>
+      Array.from(byUser.get(userId)?.values() || [])
+        .map(pattern => ({ ...pattern, examples: [...pattern.examples] }))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+
+    savePatterns: async (userId, updates) => {
+      const patterns = byUser.get(userId) || new Map<string, DomainPattern>()
+      updates.forEach(pattern => patterns.set(pattern.domain, { ...pattern, examples: [...pattern.examples] }))
+      byUser.set(userId, patterns)
+    }
+  }
+}
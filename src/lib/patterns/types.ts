@@ -0,0 +1,7 @@
+import type { DomainPattern } from '../discovery/patterns'
+
+export interface PatternStore {
+  listPatterns(userId: string): Promise<DomainPattern[]>
+  // Inserts or replaces the pattern for each domain
+  savePatterns(userId: string, patterns: DomainPattern[]): Promise<void>
+}
@@ -0,0 +1,58 @@
+import type { BlinkDatabase } from '@blinkdotnew/sdk'
+import type { PersonaStore, PersonaVersion, SavedPersona } from './types'
+
+const PERSONAS_TABLE = 'personas'
+
+// Tags and the version history are stored as JSON columns. shareId is null
+// rather than absent so an upsert clears it when sharing stops.
+interface PersonaRow extends Omit<SavedPersona, 'tags' | 'versions' | 'shareId'> {
+  tagsJson: string
+  versionsJson: string
+  shareId: string | null
+}
+
+const toRow = ({ tags, versions, shareId, ...persona }: SavedPersona): PersonaRow => ({
+  ...persona,
+  tagsJson: JSON.stringify(tags),
+  versionsJson: JSON.stringify(versions),
+  shareId: shareId ?? null
+})
+
+const fromRow = ({ tagsJson, versionsJson, shareId, ...row }: PersonaRow): SavedPersona | null => {
+  try {
+    const versions = JSON.parse(versionsJson) as PersonaVersion[]
+    if (!Array.isArray(versions) || versions.length === 0) return null
+    return { ...row, tags: JSON.parse(tagsJson || '[]'), versions, shareId: shareId || undefined }
+  } catch (error) {
+    console.log('Failed to parse stored persona:', row.id, error)
+    return null
+  }
+}
+
+const parseRows = (rows: PersonaRow[]): SavedPersona[] =>
+  rows.map(fromRow).filter((persona): persona is SavedPersona => persona !== null)
+
+export const createBlinkPersonaStore = (db: BlinkDatabase): PersonaStore => {
+  const personas = db.table<PersonaRow>(PERSONAS_TABLE)
+
+  return {
+    listPersonas: async (userId) => {
+      const rows = await personas.list({ where: { userId }, orderBy: { updatedAt: 'desc' } })
+      return parseRows(rows)
+    },
+
+    savePersona: async (persona) => {
+      await personas.upsert(toRow(persona))
+    },
+
+    deletePersona: async (userId, personaId) => {
+      await personas.deleteMany({ where: { userId, id: personaId } })
+    },
+
+    // Relies on the table letting signed-in users read rows that carry a shareId
+    loadSharedPersona: async (shareId) => {
+      const rows = await personas.list({ where: { shareId }, limit: 1 })
+      return parseRows(rows)[0] || null
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { describeCompanySize, EMPTY_PERSONA_SPEC, SENIORITY_LABELS, type PersonaSpec } from '../discovery'
+import type { PersonaVersion } from './types'
+
+export interface DiffSegment {
+  kind: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// What changed in one builder field between two versions
+export interface FieldChange {
+  label: string
+  added: string[]
+  removed: string[]
+}
+
+export interface PersonaDiff {
+  text: DiffSegment[]
+  // Only when either version was built with the builder
+  fields: FieldChange[]
+}
+
+// Words and the whitespace between them, so joining the segments rebuilds the text
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || []
+
+// Word-level diff from the longest common subsequence; persona texts are short
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  const push = (kind: DiffSegment['kind'], text: string) => {
+    const last = segments[segments.length - 1]
+    if (last?.kind === kind) last.text += text
+    else segments.push({ kind, text })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  a.slice(i).forEach(token => push('removed', token))
+  b.slice(j).forEach(token => push('added', token))
+
+  return segments
+}
+
+const listChange = (label: string, before: string[], after: string[]): FieldChange => ({
+  label,
+  added: after.filter(value => !before.includes(value)),
+  removed: before.filter(value => !after.includes(value))
+})
+
+const sizeLabel = (companySize: PersonaSpec['companySize']): string[] => {
+  const label = describeCompanySize(companySize)
+  return label ? [label] : []
+}
+
+export const diffPersonaSpecs = (before: PersonaSpec = EMPTY_PERSONA_SPEC, after: PersonaSpec = EMPTY_PERSONA_SPEC): FieldChange[] =>
+  [
+    listChange('Job titles', before.jobTitles, after.jobTitles),
+    listChange(
+      'Seniority',
+      before.seniority.map(level => SENIORITY_LABELS[level]),
+      after.seniority.map(level => SENIORITY_LABELS[level])
+    ),
+    listChange('Departments', before.departments, after.departments),
+    listChange('Industries', before.industries, after.industries),
+    listChange('Company size', sizeLabel(before.companySize), sizeLabel(after.companySize)),
+    listChange('Geography', before.locations, after.locations),
+    listChange('Technologies', before.technologies, after.technologies),
+    listChange('Exclude', before.exclusions, after.exclusions),
+    listChange('Notes', before.notes ? [before.notes] : [], after.notes ? [after.notes] : [])
+  ].filter(change => change.added.length > 0 || change.removed.length > 0)
+
+export const diffPersonaVersions = (before: PersonaVersion, after: PersonaVersion): PersonaDiff => ({
+  text: diffWords(before.text, after.text),
+  fields: before.spec || after.spec ? diffPersonaSpecs(before.spec, after.spec) : []
+})
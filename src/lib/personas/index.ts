@@ -0,0 +1,5 @@
+export * from './types'
+export * from './library'
+export * from './diff'
+export { createBlinkPersonaStore } from './blinkStore'
+export { createMemoryPersonaStore } from './memoryStore'
@@ -0,0 +1,76 @@
+import type { PersonaDraft, PersonaRef, PersonaVersion, SavedPersona } from './types'
+
+const MAX_TAGS = 10
+
+// "Sales, EMEA sales; sales" -> ['sales', 'emea sales']
+export const normalizeTags = (tags: string[] | string): string[] => {
+  const list = typeof tags === 'string' ? tags.split(/[,;]+/) : tags
+  return Array.from(new Set(list.map(tag => tag.trim().toLowerCase()).filter(Boolean))).slice(0, MAX_TAGS)
+}
+
+export const latestVersion = (persona: SavedPersona): PersonaVersion => persona.versions[persona.versions.length - 1]
+
+export const findVersion = (persona: SavedPersona, version: number): PersonaVersion | undefined =>
+  persona.versions.find(entry => entry.version === version)
+
+const sameDraft = (a: PersonaDraft, b: PersonaDraft): boolean =>
+  a.text.trim() === b.text.trim() && JSON.stringify(a.spec ?? null) === JSON.stringify(b.spec ?? null)
+
+// True when the draft differs from the version it was loaded from
+export const isModified = (version: PersonaVersion, draft: PersonaDraft): boolean => !sameDraft(version, draft)
+
+const toVersion = ({ text, spec }: PersonaDraft, version: number, note?: string): PersonaVersion => ({
+  version,
+  text: text.trim(),
+  spec,
+  note: note?.trim() || undefined,
+  createdAt: new Date().toISOString()
+})
+
+export const createSavedPersona = (userId: string, name: string, tags: string[], draft: PersonaDraft): SavedPersona => {
+  const now = new Date().toISOString()
+  return {
+    id: `persona-${Date.now()}`,
+    userId,
+    name: name.trim(),
+    tags: normalizeTags(tags),
+    versions: [toVersion(draft, 1)],
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+// Appends a version; saving an unchanged draft returns the persona as is
+export const addPersonaVersion = (persona: SavedPersona, draft: PersonaDraft, note?: string): SavedPersona => {
+  const current = latestVersion(persona)
+  if (current && sameDraft(current, draft)) return persona
+  return {
+    ...persona,
+    versions: [...persona.versions, toVersion(draft, (current?.version ?? 0) + 1, note)],
+    updatedAt: new Date().toISOString()
+  }
+}
+
+// A new persona starting from one version of another (the latest by default).
+// Also how a shared persona is imported into someone else's library.
+export const duplicatePersona = (
+  persona: SavedPersona,
+  userId: string,
+  { name, version }: { name?: string; version?: number } = {}
+): SavedPersona => {
+  const source = (version !== undefined && findVersion(persona, version)) || latestVersion(persona)
+  return createSavedPersona(userId, name || `${persona.name} (copy)`, persona.tags, source)
+}
+
+export const personaRef = (persona: SavedPersona, version = latestVersion(persona).version): PersonaRef => ({
+  personaId: persona.id,
+  version
+})
+
+export const describeRef = (personas: SavedPersona[], ref: PersonaRef): string | undefined => {
+  const persona = personas.find(entry => entry.id === ref.personaId)
+  return persona ? `${persona.name} v${ref.version}` : undefined
+}
+
+export const shareUrl = (shareId: string, origin = window.location.origin): string =>
+  `${origin}/?persona=${encodeURIComponent(shareId)}`
@@ -0,0 +1,32 @@
+import type { PersonaStore, SavedPersona } from './types'
+
+const copy = (persona: SavedPersona): SavedPersona => ({
+  ...persona,
+  tags: [...persona.tags],
+  versions: persona.versions.map(version => ({ ...version }))
+})
+
+export const createMemoryPersonaStore = (): PersonaStore => {
+  const personas = new Map<string, SavedPersona>()
+
+  return {
+    listPersonas: async (userId) =>
+      Array.from(personas.values())
+        .filter(persona => persona.userId === userId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(copy),
+
+    savePersona: async (persona) => {
+      personas.set(persona.id, copy(persona))
+    },
+
+    deletePersona: async (userId, personaId) => {
+      if (personas.get(personaId)?.userId === userId) personas.delete(personaId)
+    },
+
+    loadSharedPersona: async (shareId) => {
+      const shared = Array.from(personas.values()).find(persona => persona.shareId === shareId)
+      return shared ? copy(shared) : null
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { PersonaSpec } from '../discovery'
+
+// What a search runs with: the prompt text, and the builder fields it came from
+export interface PersonaDraft {
+  text: string
+  spec?: PersonaSpec
+}
+
+// One saved revision; never edited once written
+export interface PersonaVersion extends PersonaDraft {
+  version: number
+  note?: string
+  createdAt: string
+}
+
+// A named persona in the user's library, with every version kept
+export interface SavedPersona {
+  id: string
+  userId: string
+  name: string
+  tags: string[]
+  // Oldest first; the last one is current
+  versions: PersonaVersion[]
+  // Set while the persona is shared; anyone with the link can import a copy
+  shareId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Which persona version a search ran with
+export interface PersonaRef {
+  personaId: string
+  version: number
+}
+
+export interface PersonaStore {
+  listPersonas(userId: string): Promise<SavedPersona[]>
+  // Creates or replaces the persona with the same id
+  savePersona(persona: SavedPersona): Promise<void>
+  deletePersona(userId: string, personaId: string): Promise<void>
+  loadSharedPersona(shareId: string): Promise<SavedPersona | null>
+}
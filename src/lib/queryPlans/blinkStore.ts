@@ -0,0 +1,40 @@
+import type { BlinkDatabase } from '@blinkdotnew/sdk'
+import type { QuerySet, QuerySetStore } from './types'
+
+const QUERY_SETS_TABLE = 'query_sets'
+
+// The query list is stored as a JSON column
+interface QuerySetRow extends Omit<QuerySet, 'queries'> {
+  queriesJson: string
+}
+
+const fromRow = ({ queriesJson, ...row }: QuerySetRow): QuerySet => {
+  try {
+    return { ...row, queries: JSON.parse(queriesJson) }
+  } catch (error) {
+    console.log('Failed to parse stored query set:', row.id, error)
+    return { ...row, queries: [] }
+  }
+}
+
+export const createBlinkQuerySetStore = (db: BlinkDatabase): QuerySetStore => {
+  const querySets = db.table<QuerySetRow>(QUERY_SETS_TABLE)
+
+  return {
+    saveQuerySet: async ({ queries, ...querySet }) => {
+      await querySets.create({ ...querySet, queriesJson: JSON.stringify(queries) })
+    },
+
+    listQuerySets: async (userId, personaKey) => {
+      const rows = await querySets.list({
+        where: { userId, personaKey },
+        orderBy: { createdAt: 'desc' }
+      })
+      return rows.map(fromRow)
+    },
+
+    deleteQuerySet: async (userId, querySetId) => {
+      await querySets.deleteMany({ where: { userId, id: querySetId } })
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export * from './types'
+export * from './plan'
+export { createBlinkQuerySetStore } from './blinkStore'
+export { createMemoryQuerySetStore } from './memoryStore'
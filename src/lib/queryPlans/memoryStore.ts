@@ -0,0 +1,21 @@
+import type { QuerySet, QuerySetStore } from './types'
+
+export const createMemoryQuerySetStore = (): QuerySetStore => {
+  const querySets: QuerySet[] = []
+
+  return {
+    saveQuerySet: async (querySet) => {
+      querySets.push({ ...querySet, queries: querySet.queries.map(query => ({ ...query })) })
+    },
+
+    listQuerySets: async (userId, personaKey) =>
+      querySets
+        .filter(querySet => querySet.userId === userId && querySet.personaKey === personaKey)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+    deleteQuerySet: async (userId, querySetId) => {
+      const index = querySets.findIndex(querySet => querySet.id === querySetId && querySet.userId === userId)
+      if (index !== -1) querySets.splice(index, 1)
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import type { PlannedQuery, QuerySet } from './types'
+
+let nextId = 0
+const queryId = () => `query-${Date.now()}-${nextId++}`
+
+// Favourites are matched on the persona text, ignoring case and spacing
+export const personaKey = (persona: string): string =>
+  persona.trim().toLowerCase().replace(/\s+/g, ' ')
+
+export const toPlannedQueries = (texts: string[], pinned: boolean = false): PlannedQuery[] =>
+  texts.map(text => ({ id: queryId(), text, pinned }))
+
+export const fromQuerySet = (querySet: QuerySet): PlannedQuery[] =>
+  querySet.queries.map(query => ({ id: queryId(), text: query.text, pinned: query.pinned }))
+
+// The queries that will actually run, in order, without blanks or repeats
+export const runnableQueries = (plan: PlannedQuery[]): string[] => {
+  const seen = new Set<string>()
+  return plan
+    .map(query => query.text.trim())
+    .filter(text => {
+      const key = text.toLowerCase()
+      if (!text || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+export const addQuery = (plan: PlannedQuery[], text: string = ''): PlannedQuery[] =>
+  [...plan, { id: queryId(), text, pinned: false }]
+
+export const updateQuery = (plan: PlannedQuery[], id: string, text: string): PlannedQuery[] =>
+  plan.map(query => (query.id === id ? { ...query, text } : query))
+
+export const removeQuery = (plan: PlannedQuery[], id: string): PlannedQuery[] =>
+  plan.filter(query => query.id !== id)
+
+export const togglePin = (plan: PlannedQuery[], id: string): PlannedQuery[] =>
+  plan.map(query => (query.id === id ? { ...query, pinned: !query.pinned } : query))
+
+export const moveQuery = (plan: PlannedQuery[], id: string, offset: number): PlannedQuery[] => {
+  const from = plan.findIndex(query => query.id === id)
+  const to = from + offset
+  if (from === -1 || to < 0 || to >= plan.length) return plan
+
+  const next = [...plan]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+// Regenerating keeps pinned queries in place at the top and refills the rest
+export const mergeRegenerated = (plan: PlannedQuery[], generated: string[]): PlannedQuery[] => {
+  const pinned = plan.filter(query => query.pinned)
+  const pinnedTexts = new Set(pinned.map(query => query.text.trim().toLowerCase()))
+  const fresh = generated.filter(text => !pinnedTexts.has(text.trim().toLowerCase()))
+  return [...pinned, ...toPlannedQueries(fresh)]
+}
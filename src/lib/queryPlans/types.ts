@@ -0,0 +1,22 @@
+export interface PlannedQuery {
+  id: string
+  text: string
+  // Pinned queries survive regenerating the plan
+  pinned: boolean
+}
+
+// A named, saved list of queries for a persona
+export interface QuerySet {
+  id: string
+  userId: string
+  personaKey: string
+  name: string
+  queries: Array<Pick<PlannedQuery, 'text' | 'pinned'>>
+  createdAt: string
+}
+
+export interface QuerySetStore {
+  saveQuerySet(querySet: QuerySet): Promise<void>
+  listQuerySets(userId: string, personaKey: string): Promise<QuerySet[]>
+  deleteQuerySet(userId: string, querySetId: string): Promise<void>
+}
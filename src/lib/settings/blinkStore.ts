@@ -0,0 +1,52 @@
+import type { BlinkDatabase } from '@blinkdotnew/sdk'
+import { normalizeRoleAccounts } from '../discovery/roles'
+import { normalizeSearchSettings } from '../discovery/settings'
+import type { SettingsStore, UserSettings } from './types'
+
+const USER_SETTINGS_TABLE = 'user_settings'
+
+// One row per user; the search settings and role list are stored as JSON columns
+interface UserSettingsRow {
+  id: string
+  userId: string
+  searchJson: string
+  roleAccountsJson?: string
+  updatedAt: string
+}
+
+const rowId = (userId: string) => `settings-${userId}`
+
+const fromRow = ({ userId, searchJson, roleAccountsJson, updatedAt }: UserSettingsRow): UserSettings => {
+  try {
+    return {
+      userId,
+      search: normalizeSearchSettings(JSON.parse(searchJson)),
+      roleAccounts: roleAccountsJson ? normalizeRoleAccounts(JSON.parse(roleAccountsJson)) : [],
+      updatedAt
+    }
+  } catch (error) {
+    console.log('Failed to parse stored settings for user:', userId, error)
+    return { userId, search: normalizeSearchSettings(), roleAccounts: [], updatedAt }
+  }
+}
+
+export const createBlinkSettingsStore = (db: BlinkDatabase): SettingsStore => {
+  const userSettings = db.table<UserSettingsRow>(USER_SETTINGS_TABLE)
+
+  return {
+    loadSettings: async (userId) => {
+      const rows = await userSettings.list({ where: { userId }, limit: 1 })
+      return rows.length > 0 ? fromRow(rows[0]) : null
+    },
+
+    saveSettings: async ({ userId, search, roleAccounts, updatedAt }) => {
+      await userSettings.upsert({
+        id: rowId(userId),
+        userId,
+        searchJson: JSON.stringify(search),
+        roleAccountsJson: JSON.stringify(roleAccounts),
+        updatedAt
+      })
+    }
+  }
+}
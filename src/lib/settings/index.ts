@@ -0,0 +1,3 @@
+export * from './types'
+export { createBlinkSettingsStore } from './blinkStore'
+export { createMemorySettingsStore } from './memoryStore'
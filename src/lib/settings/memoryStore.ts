@@ -0,0 +1,16 @@
+import type { SettingsStore, UserSettings } from './types'
+
+export const createMemorySettingsStore = (): SettingsStore => {
+  const byUser = new Map<string, UserSettings>()
+
+  return {
+    loadSettings: async (userId) => {
+      const settings = byUser.get(userId)
+      return settings ? { ...settings, search: { ...settings.search }, roleAccounts: [...settings.roleAccounts] } : null
+    },
+
+    saveSettings: async (settings) => {
+      byUser.set(settings.userId, { ...settings, search: { ...settings.search }, roleAccounts: [...settings.roleAccounts] })
+    }
+  }
+}
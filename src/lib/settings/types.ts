@@ -0,0 +1,15 @@
+import type { SearchSettings } from '../discovery/settings'
+
+// Per-user preferences that outlive a single search
+export interface UserSettings {
+  userId: string
+  search: SearchSettings
+  // Extra shared mailbox names ("bookings", "studio") treated as role accounts
+  roleAccounts: string[]
+  updatedAt: string
+}
+
+export interface SettingsStore {
+  loadSettings(userId: string): Promise<UserSettings | null>
+  saveSettings(settings: UserSettings): Promise<void>
+}